@@ -0,0 +1,55 @@
+// Runs the tests in tests/ with node's built-in test runner. The tests and the
+// modules under src/ are transpiled to CommonJS in a temporary directory first;
+// type checking is left to `tsc --noEmit`.
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clean-sheet-tests-'));
+
+function transpileDir(dir) {
+  if (!fs.existsSync(path.join(root, dir))) return;
+  fs.readdirSync(path.join(root, dir), { withFileTypes: true }).forEach(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      transpileDir(file);
+      return;
+    }
+    if (!entry.name.endsWith('.ts')) return;
+    const { outputText } = ts.transpileModule(fs.readFileSync(path.join(root, file), 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+      fileName: file
+    });
+    const target = path.join(outDir, file.replace(/\.ts$/, '.js'));
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    // import.meta only locates the parse worker, which the tests never start
+    fs.writeFileSync(target, outputText.replace(/import\.meta\.url/g, 'undefined'));
+  });
+}
+
+let status = 1;
+try {
+  ['src/types', 'src/utils', 'tests'].forEach(transpileDir);
+  const testDir = path.join(outDir, 'tests');
+  const testFiles = fs.existsSync(testDir)
+    ? fs.readdirSync(testDir).filter(name => name.endsWith('.test.js')).map(name => path.join(testDir, name))
+    : [];
+  if (testFiles.length === 0) {
+    console.log('No tests found in tests/');
+    status = 0;
+  } else {
+    // Packages such as xlsx are resolved from this repo's node_modules
+    const result = spawnSync(process.execPath, ['--test', ...testFiles], {
+      stdio: 'inherit',
+      env: { ...process.env, NODE_PATH: path.join(root, 'node_modules') }
+    });
+    status = result.status ?? 1;
+  }
+} finally {
+  fs.rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(status);
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Box, Drawer, AppBar, Toolbar, Typography, List, ListItem, ListItemButton, ListItemIcon, ListItemText, CssBaseline, Button } from '@mui/material';
 import { Upload, TableChart, Rule, Download, Lightbulb, Analytics } from '@mui/icons-material';
 import UploadSection from '../components/UploadSection';
@@ -12,6 +12,11 @@ import DataQualityInsights from '../components/DataQualityInsights';
 import { Client, Worker, Task, RulesConfig, BusinessRule } from '../types';
 import { RuleSuggestion, convertSuggestionToBusinessRule, ConvertedRuleResult } from '../utils/smartRuleSuggestions';
 import { saveAs } from 'file-saver';
+import { toExportRows } from '../utils/coercion';
+import { CustomEntityType, loadCustomEntityTypes, saveCustomEntityTypes } from '../utils/schema';
+import { CustomEntityData } from '../utils/customEntities';
+import { DEFAULT_SKILL_TAXONOMY } from '../utils/skillTaxonomy';
+import { loadRuleSettings, saveRuleSettings } from '../utils/ruleCatalog';
 import * as XLSX from 'xlsx';
 import { useTheme } from '@mui/material/styles';
 
@@ -24,6 +29,8 @@ export default function Home() {
   const [clients, setClients] = useState<Client[]>([]);
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [customTypes, setCustomTypes] = useState<CustomEntityType[]>([]);
+  const [customData, setCustomData] = useState<CustomEntityData>({});
   const [rulesConfig, setRulesConfig] = useState<RulesConfig>({
     businessRules: [],
     prioritization: {
@@ -55,7 +62,11 @@ export default function Home() {
         validateWorkerID: false,
         validateDueDate: false
       }
-    }
+    },
+    userRules: [],
+    skillTaxonomy: DEFAULT_SKILL_TAXONOMY,
+    ruleOverrides: {},
+    suppressions: []
   });
   const [appliedRules, setAppliedRules] = useState<Set<string>>(new Set());
   const [appliedSuggestions, setAppliedSuggestions] = useState<Map<string, RuleSuggestion>>(new Map());
@@ -63,6 +74,27 @@ export default function Home() {
 
   const theme = useTheme();
 
+  // Custom entity definitions live in localStorage; read them after mount
+  useEffect(() => {
+    setCustomTypes(loadCustomEntityTypes());
+    // Rule settings and suppressions are kept across sessions as well
+    const { ruleOverrides, suppressions } = loadRuleSettings();
+    setRulesConfig(prev => ({ ...prev, ruleOverrides, suppressions }));
+  }, []);
+
+  const handleCustomTypesChange = (types: CustomEntityType[]) => {
+    saveCustomEntityTypes(types);
+    setCustomTypes(types);
+    // Drop the rows of removed types
+    setCustomData(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => types.some(type => type.key === key))
+    ));
+  };
+
+  const handleCustomDataUpdate = (key: string, rows: Record<string, unknown>[]) => {
+    setCustomData(prev => ({ ...prev, [key]: rows }));
+  };
+
   const handleDataUpdate = (type: 'clients' | 'workers' | 'tasks', newData: any[]) => {
     console.log(`Data update for ${type}:`, {
       count: newData.length,
@@ -85,6 +117,7 @@ export default function Home() {
 
   const handleRulesChange = (rules: RulesConfig) => {
     setRulesConfig(rules);
+    saveRuleSettings({ ruleOverrides: rules.ruleOverrides, suppressions: rules.suppressions });
   };
 
   const handleApplyRule = (suggestion: RuleSuggestion) => {
@@ -122,6 +155,13 @@ export default function Home() {
         [converted.validationRule.flag]: converted.validationRule.description || ''
       }));
     }
+    if (converted?.userRule) {
+      const userRule = converted.userRule;
+      setRulesConfig(prev => ({
+        ...prev,
+        userRules: [...prev.userRules.filter(rule => rule.id !== userRule.id), userRule]
+      }));
+    }
     
     alert(`Rule "${suggestion.title}" applied successfully!`);
   };
@@ -149,7 +189,8 @@ export default function Home() {
     );
     const updatedRulesConfig = {
       ...rulesConfig,
-      businessRules: updatedBusinessRules
+      businessRules: updatedBusinessRules,
+      userRules: rulesConfig.userRules.filter(rule => rule.id !== `applied-${suggestionId}`)
     };
     setRulesConfig(updatedRulesConfig);
     
@@ -163,7 +204,7 @@ export default function Home() {
     // Export cleaned CSVs
     if (clients.length > 0) {
       const clientsWorkbook = XLSX.utils.book_new();
-      const clientsWorksheet = XLSX.utils.json_to_sheet(clients);
+      const clientsWorksheet = XLSX.utils.json_to_sheet(toExportRows(clients));
       XLSX.utils.book_append_sheet(clientsWorkbook, clientsWorksheet, 'Clients');
       const clientsBuffer = XLSX.write(clientsWorkbook, { bookType: 'csv', type: 'array' });
       const clientsBlob = new Blob([clientsBuffer], { type: 'text/csv;charset=utf-8' });
@@ -172,7 +213,7 @@ export default function Home() {
 
     if (workers.length > 0) {
       const workersWorkbook = XLSX.utils.book_new();
-      const workersWorksheet = XLSX.utils.json_to_sheet(workers);
+      const workersWorksheet = XLSX.utils.json_to_sheet(toExportRows(workers));
       XLSX.utils.book_append_sheet(workersWorkbook, workersWorksheet, 'Workers');
       const workersBuffer = XLSX.write(workersWorkbook, { bookType: 'csv', type: 'array' });
       const workersBlob = new Blob([workersBuffer], { type: 'text/csv;charset=utf-8' });
@@ -181,13 +222,21 @@ export default function Home() {
 
     if (tasks.length > 0) {
       const tasksWorkbook = XLSX.utils.book_new();
-      const tasksWorksheet = XLSX.utils.json_to_sheet(tasks);
+      const tasksWorksheet = XLSX.utils.json_to_sheet(toExportRows(tasks));
       XLSX.utils.book_append_sheet(tasksWorkbook, tasksWorksheet, 'Tasks');
       const tasksBuffer = XLSX.write(tasksWorkbook, { bookType: 'csv', type: 'array' });
       const tasksBlob = new Blob([tasksBuffer], { type: 'text/csv;charset=utf-8' });
       saveAs(tasksBlob, `tasks_cleaned_${timestamp}.csv`);
     }
 
+    customTypes.forEach(type => {
+      const rows = customData[type.key] ?? [];
+      if (rows.length === 0) return;
+      const worksheet = XLSX.utils.json_to_sheet(toExportRows(rows));
+      const blob = new Blob([XLSX.utils.sheet_to_csv(worksheet)], { type: 'text/csv;charset=utf-8' });
+      saveAs(blob, `${type.key}_cleaned_${timestamp}.csv`);
+    });
+
     // Export rules.json
     const rulesJson = JSON.stringify(rulesConfig, null, 2);
     const rulesBlob = new Blob([rulesJson], { type: 'application/json' });
@@ -197,11 +246,28 @@ export default function Home() {
   const renderSection = () => {
     switch (currentSection) {
       case 'upload':
-        return <UploadSection onDataUpdate={handleDataUpdate} />;
+        return <UploadSection onDataUpdate={handleDataUpdate} existingData={{ clients, workers, tasks }} />;
       case 'tables':
-        return <TablesSection clients={clients} workers={workers} tasks={tasks} onDataUpdate={handleDataUpdate} />;
+        return (
+          <TablesSection
+            clients={clients}
+            workers={workers}
+            tasks={tasks}
+            onDataUpdate={handleDataUpdate}
+            customTypes={customTypes}
+            customData={customData}
+            onCustomDataUpdate={handleCustomDataUpdate}
+            onCustomTypesChange={handleCustomTypesChange}
+            validationRules={rulesConfig.validationRules}
+            userRules={rulesConfig.userRules}
+            skillTaxonomy={rulesConfig.skillTaxonomy}
+            ruleOverrides={rulesConfig.ruleOverrides}
+            suppressions={rulesConfig.suppressions}
+            onSuppressionsChange={(suppressions) => handleRulesChange({ ...rulesConfig, suppressions })}
+          />
+        );
       case 'rules':
-        return <RulesSection clients={clients} workers={workers} tasks={tasks} validationRules={rulesConfig.validationRules} onRulesChange={handleRulesChange} aiValidationDescriptions={aiValidationDescriptions} />;
+        return <RulesSection clients={clients} workers={workers} tasks={tasks} validationRules={rulesConfig.validationRules} userRules={rulesConfig.userRules} skillTaxonomy={rulesConfig.skillTaxonomy} ruleOverrides={rulesConfig.ruleOverrides} suppressions={rulesConfig.suppressions} customTypes={customTypes} customData={customData} onRulesChange={handleRulesChange} aiValidationDescriptions={aiValidationDescriptions} />;
       case 'smart-rules':
         return (
           <SmartRuleSuggestions 
@@ -216,13 +282,14 @@ export default function Home() {
       case 'insights':
         return <DataQualityInsights clients={clients} workers={workers} tasks={tasks} />;
       case 'export':
-        return <ExportSection clients={clients} workers={workers} tasks={tasks} />;
+        return <ExportSection clients={clients} workers={workers} tasks={tasks} customTypes={customTypes} customData={customData} />;
       default:
-        return <UploadSection onDataUpdate={handleDataUpdate} />;
+        return <UploadSection onDataUpdate={handleDataUpdate} existingData={{ clients, workers, tasks }} />;
     }
   };
 
-  const hasData = clients.length > 0 || workers.length > 0 || tasks.length > 0;
+  const hasData = clients.length > 0 || workers.length > 0 || tasks.length > 0
+    || Object.values(customData).some(rows => rows.length > 0);
 
   return (
     <Box sx={{ display: 'flex', background: theme.palette.background.default, minHeight: '100vh' }}>
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Chip,
+  Alert,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Checkbox,
+  FormControlLabel
+} from '@mui/material';
+import { EntityType, FileData } from '../types';
+import {
+  CANONICAL_FIELDS,
+  ColumnMapping,
+  MappingTemplate,
+  suggestColumnMapping,
+  findDuplicateTargets,
+  applyColumnMapping,
+  findMappingTemplate,
+  saveMappingTemplate,
+  deleteMappingTemplate
+} from '../utils/columnMapping';
+
+interface ColumnMappingDialogProps {
+  open: boolean;
+  sheets: FileData[];
+  onComplete: (mappedSheets: FileData[]) => void;
+  onCancel: () => void;
+}
+
+// Select values that don't collide with real column names
+const IGNORE_VALUE = '__ignore__';
+const KEEP_VALUE = '__keep__';
+
+export default function ColumnMappingDialog({ open, sheets, onComplete, onCancel }: ColumnMappingDialogProps) {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  // Empty until the user confirms the type of an ambiguous sheet
+  const [entityType, setEntityType] = useState<EntityType | ''>('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [appliedTemplate, setAppliedTemplate] = useState<MappingTemplate | null>(null);
+  const [saveAsTemplate, setSaveAsTemplate] = useState(true);
+  const [mappedSheets, setMappedSheets] = useState<FileData[]>([]);
+
+  const sheet = sheets[sheetIndex];
+
+  // Reset when a new batch of sheets arrives
+  useEffect(() => {
+    if (open) {
+      setSheetIndex(0);
+      setMappedSheets([]);
+    }
+  }, [open, sheets]);
+
+  // Prefill the current sheet from a saved template or the detected entity type
+  useEffect(() => {
+    if (!sheet) return;
+    const template = findMappingTemplate(sheet.columns);
+    if (template) {
+      setEntityType(template.entityType);
+      setMapping({ ...suggestColumnMapping(sheet.columns, template.entityType), ...template.mapping });
+      setAppliedTemplate(template);
+    } else if (sheet.detection?.ambiguous) {
+      setEntityType('');
+      setMapping({});
+      setAppliedTemplate(null);
+    } else {
+      setEntityType(sheet.type);
+      setMapping(suggestColumnMapping(sheet.columns, sheet.type));
+      setAppliedTemplate(null);
+    }
+  }, [sheet]);
+
+  if (!sheet) return null;
+
+  const duplicateTargets = findDuplicateTargets(mapping);
+  const renamedFrom = Object.fromEntries((sheet.renamedHeaders || []).map(rename => [rename.normalized, rename.original]));
+
+  const handleEntityTypeChange = (type: EntityType) => {
+    setEntityType(type);
+    setMapping(suggestColumnMapping(sheet.columns, type));
+  };
+
+  const handleTargetChange = (column: string, value: string) => {
+    const target = value === IGNORE_VALUE ? null : value === KEEP_VALUE ? column : value;
+    setMapping(prev => ({ ...prev, [column]: target }));
+  };
+
+  const handleForgetTemplate = () => {
+    if (appliedTemplate) {
+      deleteMappingTemplate(appliedTemplate.signature);
+      setAppliedTemplate(null);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!entityType) return;
+    if (saveAsTemplate) {
+      saveMappingTemplate(sheet.columns, entityType, mapping);
+    }
+
+    const updated = [...mappedSheets, applyColumnMapping(sheet, entityType, mapping)];
+    if (sheetIndex + 1 < sheets.length) {
+      setMappedSheets(updated);
+      setSheetIndex(sheetIndex + 1);
+    } else {
+      onComplete(updated);
+    }
+  };
+
+  const getSelectValue = (column: string, type: EntityType) => {
+    const target = mapping[column];
+    if (target === null) return IGNORE_VALUE;
+    if (target === column && !CANONICAL_FIELDS[type].includes(column)) return KEEP_VALUE;
+    return target ?? KEEP_VALUE;
+  };
+
+  const getCandidateLabel = (type: EntityType) => {
+    const candidate = sheet.detection?.candidates.find(c => c.type === type);
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
+    return candidate ? `${label} (${Math.round(candidate.confidence * 100)}% match)` : label;
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h6" component="span">
+          Map Columns
+        </Typography>
+        <Chip label={`Sheet ${sheetIndex + 1} of ${sheets.length}`} size="small" />
+      </DialogTitle>
+
+      <DialogContent>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+          {sheet.fileName}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {sheet.data.length} records · {sheet.detection?.ambiguous
+            ? <>entity type could not be detected reliably</>
+            : <>detected as <b>{sheet.type}</b></>}
+        </Typography>
+
+        {sheet.detection?.ambiguous && !appliedTemplate && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {sheet.detection.candidates[0].score === 0
+              ? 'None of the columns look like client, worker or task fields.'
+              : `This sheet matches several entity types (best guess: ${getCandidateLabel(sheet.detection.candidates[0].type)}).`}
+            {' '}Please confirm which entity it contains.
+          </Alert>
+        )}
+
+        {appliedTemplate && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={<Button color="inherit" size="small" onClick={handleForgetTemplate}>Forget</Button>}
+          >
+            Applied saved mapping template from {new Date(appliedTemplate.savedAt).toLocaleString()}.
+          </Alert>
+        )}
+
+        <FormControl fullWidth sx={{ mb: 2 }}>
+          <InputLabel>Entity Type</InputLabel>
+          <Select
+            value={entityType}
+            onChange={(e) => handleEntityTypeChange(e.target.value as EntityType)}
+            label="Entity Type"
+          >
+            {(sheet.detection?.candidates.map(c => c.type) ?? ['clients', 'workers', 'tasks'] as EntityType[]).map(type => (
+              <MenuItem key={type} value={type}>{getCandidateLabel(type)}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {duplicateTargets.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Several columns map to {duplicateTargets.join(', ')}. Only the last one will be kept.
+          </Alert>
+        )}
+
+        {entityType && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Source Column</TableCell>
+                <TableCell>Sample Value</TableCell>
+                <TableCell>Maps To</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sheet.columns.map(column => (
+                <TableRow key={column}>
+                  <TableCell>
+                    {column}
+                    {renamedFrom[column] && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        was &quot;{renamedFrom[column]}&quot;
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ color: 'text.secondary', maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {String(sheet.data[0]?.[column] ?? '')}
+                  </TableCell>
+                  <TableCell sx={{ minWidth: 220 }}>
+                    <Select
+                      size="small"
+                      fullWidth
+                      value={getSelectValue(column, entityType)}
+                      onChange={(e) => handleTargetChange(column, e.target.value)}
+                      error={!!mapping[column] && duplicateTargets.includes(mapping[column] as string)}
+                    >
+                      {CANONICAL_FIELDS[entityType].map(field => (
+                        <MenuItem key={field} value={field}>{field}</MenuItem>
+                      ))}
+                      <MenuItem value={KEEP_VALUE}><i>Keep as &quot;{column}&quot;</i></MenuItem>
+                      <MenuItem value={IGNORE_VALUE}><i>Ignore column</i></MenuItem>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <FormControlLabel
+          sx={{ mt: 2 }}
+          control={<Checkbox checked={saveAsTemplate} onChange={(e) => setSaveAsTemplate(e.target.checked)} />}
+          label={<Typography variant="body2">Save this mapping as a template for sheets with the same headers</Typography>}
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel Import</Button>
+        <Button onClick={handleConfirm} variant="contained" disabled={!entityType}>
+          {sheetIndex + 1 < sheets.length ? 'Next Sheet' : 'Import'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import {
+  Box,
+  Typography,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel
+} from '@mui/material';
+import { CsvDialect } from '../types';
+import { DELIMITER_OPTIONS, ENCODING_OPTIONS, QUOTE_OPTIONS } from '../utils/csvDialect';
+
+interface CsvDialectPanelProps {
+  fileName: string;
+  dialect: CsvDialect;
+  columns: string[];
+  rowCount: number;
+  disabled?: boolean;
+  onChange: (dialect: CsvDialect) => void;
+}
+
+const DECIMAL_OPTIONS = [
+  { value: '.', label: 'Point (1.5)' },
+  { value: ',', label: 'Comma (1,5)' }
+];
+
+export default function CsvDialectPanel({ fileName, dialect, columns, rowCount, disabled, onChange }: CsvDialectPanelProps) {
+  const fields: { key: keyof CsvDialect; label: string; options: { value: string; label: string }[] }[] = [
+    { key: 'delimiter', label: 'Delimiter', options: DELIMITER_OPTIONS },
+    { key: 'encoding', label: 'Encoding', options: ENCODING_OPTIONS },
+    { key: 'quoteChar', label: 'Quote', options: QUOTE_OPTIONS },
+    { key: 'decimalSeparator', label: 'Decimal', options: DECIMAL_OPTIONS }
+  ];
+
+  return (
+    <Box sx={{ textAlign: 'left' }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+        {fileName}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {dialect.hasBom ? 'Byte order mark found · ' : ''}{columns.length} columns · {rowCount} rows
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 1 }}>
+        {fields.map(({ key, label, options }) => (
+          <FormControl key={key} size="small" sx={{ minWidth: 150 }} disabled={disabled}>
+            <InputLabel>{label}</InputLabel>
+            <Select
+              value={String(dialect[key])}
+              label={label}
+              onChange={(e) => onChange({ ...dialect, [key]: e.target.value })}
+            >
+              {options.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        ))}
+      </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+        Columns: {columns.join(', ')}
+      </Typography>
+    </Box>
+  );
+}
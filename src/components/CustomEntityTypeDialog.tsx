@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Tabs,
+  Tab,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Checkbox,
+  IconButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { FieldType } from '../types';
+import {
+  BUILT_IN_ENTITY_TYPES,
+  CUSTOM_ENTITY_PRESETS,
+  CustomEntityType,
+  FieldSchema,
+  checkCustomEntityType,
+  toEntityKey
+} from '../utils/schema';
+
+interface CustomEntityTypeDialogProps {
+  open: boolean;
+  types: CustomEntityType[];
+  onSave: (types: CustomEntityType[]) => void;
+  onClose: () => void;
+}
+
+const FIELD_TYPE_OPTIONS: FieldType[] = ['id', 'string', 'integer', 'number', 'number-list', 'phase-list', 'string-list', 'json', 'date'];
+
+const NO_REFERENCE = 'none';
+
+function parseBound(text: string): number | undefined {
+  return text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text);
+}
+
+export default function CustomEntityTypeDialog({ open, types, onSave, onClose }: CustomEntityTypeDialogProps) {
+  const [drafts, setDrafts] = useState<CustomEntityType[]>(types);
+  const [selected, setSelected] = useState(0);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  // Start from the saved definitions each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDrafts(types);
+      setSelected(0);
+      setProblems([]);
+    }
+  }, [open, types]);
+
+  // Keys of saved types stay fixed so loaded data and references keep pointing at them
+  const savedKeys = new Set(types.map(type => type.key));
+  const draft = drafts[selected];
+
+  const updateDraft = (changes: Partial<CustomEntityType>) => {
+    setDrafts(prev => prev.map((type, index) => {
+      if (index !== selected) return type;
+      const updated = { ...type, ...changes };
+      if (changes.label !== undefined && !savedKeys.has(type.key)) {
+        updated.key = toEntityKey(changes.label);
+      }
+      return updated;
+    }));
+  };
+
+  const updateField = (fieldIndex: number, changes: Partial<FieldSchema>) => {
+    const previousName = draft.fields[fieldIndex].name;
+    const fields = draft.fields.map((field, index) => index === fieldIndex ? { ...field, ...changes } : field);
+    updateDraft({
+      fields,
+      idField: changes.name !== undefined && draft.idField === previousName ? changes.name : draft.idField
+    });
+  };
+
+  const handleAddType = (preset?: CustomEntityType) => {
+    const next: CustomEntityType = preset
+      ? { ...preset, fields: preset.fields.map(field => ({ ...field })) }
+      : { key: '', label: '', idField: 'ID', fields: [{ name: 'ID', type: 'id', required: true }] };
+    setDrafts(prev => [...prev, next]);
+    setSelected(drafts.length);
+    setProblems([]);
+  };
+
+  const handleRemoveType = () => {
+    setDrafts(prev => prev.filter((_, index) => index !== selected));
+    setSelected(Math.max(0, selected - 1));
+  };
+
+  const handleSave = () => {
+    const found = drafts.flatMap((type, index) =>
+      checkCustomEntityType(type, drafts.filter((_, other) => other !== index))
+        .map(problem => `${type.label || 'Untitled'}: ${problem}`)
+    );
+    if (found.length > 0) {
+      setProblems(found);
+      return;
+    }
+    onSave(drafts.map(type => ({
+      ...type,
+      fields: type.fields.map(field => ({
+        ...field,
+        name: field.name.trim(),
+        required: field.required || field.name === type.idField
+      }))
+    })));
+  };
+
+  const referenceTargets = [
+    ...BUILT_IN_ENTITY_TYPES.map(key => ({ key, label: key.charAt(0).toUpperCase() + key.slice(1) })),
+    ...drafts.filter(type => type.key && type !== draft).map(type => ({ key: type.key, label: type.label }))
+  ];
+  const unusedPresets = CUSTOM_ENTITY_PRESETS.filter(preset => !drafts.some(type => type.key === preset.key));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Custom Entity Types</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Define extra tables such as projects, skill catalogs or locations. Each type has its own ID column
+          and fields, may reference other entities, and is validated like clients, workers and tasks.
+        </Typography>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <Button size="small" startIcon={<Add />} onClick={() => handleAddType()}>
+            New Type
+          </Button>
+          {unusedPresets.map(preset => (
+            <Button key={preset.key} size="small" variant="outlined" onClick={() => handleAddType(preset)}>
+              Add {preset.label}
+            </Button>
+          ))}
+        </Box>
+
+        {drafts.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No custom entity types yet.
+          </Typography>
+        ) : (
+          <>
+            <Tabs value={selected} onChange={(_, value) => setSelected(value)} variant="scrollable" sx={{ mb: 2 }}>
+              {drafts.map((type, index) => (
+                <Tab key={index} value={index} label={type.label || 'Untitled'} />
+              ))}
+            </Tabs>
+
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              <TextField
+                label="Name"
+                size="small"
+                value={draft.label}
+                onChange={(e) => updateDraft({ label: e.target.value })}
+                helperText={draft.key ? `Key: ${draft.key}` : 'Plural name, e.g. Projects'}
+              />
+              <FormControl size="small" sx={{ minWidth: 200 }}>
+                <InputLabel>ID Column</InputLabel>
+                <Select
+                  value={draft.fields.some(field => field.name === draft.idField) ? draft.idField : ''}
+                  label="ID Column"
+                  onChange={(e) => updateDraft({ idField: e.target.value })}
+                >
+                  {draft.fields.filter(field => field.name.trim()).map(field => (
+                    <MenuItem key={field.name} value={field.name}>{field.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Button color="error" onClick={handleRemoveType} sx={{ ml: 'auto' }}>
+                Remove Type
+              </Button>
+            </Box>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Required</TableCell>
+                  <TableCell>Min</TableCell>
+                  <TableCell>Max</TableCell>
+                  <TableCell>References</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.fields.map((field, fieldIndex) => (
+                  <TableRow key={fieldIndex}>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={field.name}
+                        onChange={(e) => updateField(fieldIndex, { name: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={field.type}
+                        onChange={(e) => updateField(fieldIndex, { type: e.target.value as FieldType })}
+                      >
+                        {FIELD_TYPE_OPTIONS.map(type => (
+                          <MenuItem key={type} value={type}>{type}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={!!field.required || field.name === draft.idField}
+                        disabled={field.name === draft.idField}
+                        onChange={(e) => updateField(fieldIndex, { required: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        sx={{ width: 90 }}
+                        value={field.min ?? ''}
+                        onChange={(e) => updateField(fieldIndex, { min: parseBound(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        sx={{ width: 90 }}
+                        value={field.max ?? ''}
+                        onChange={(e) => updateField(fieldIndex, { max: parseBound(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={field.references ?? NO_REFERENCE}
+                        onChange={(e) => updateField(fieldIndex, {
+                          references: e.target.value === NO_REFERENCE ? undefined : e.target.value
+                        })}
+                        sx={{ minWidth: 130 }}
+                      >
+                        <MenuItem value={NO_REFERENCE}>None</MenuItem>
+                        {referenceTargets.map(target => (
+                          <MenuItem key={target.key} value={target.key}>{target.label}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <IconButton
+                        size="small"
+                        onClick={() => updateDraft({ fields: draft.fields.filter((_, index) => index !== fieldIndex) })}
+                        disabled={draft.fields.length === 1}
+                      >
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              size="small"
+              startIcon={<Add />}
+              sx={{ mt: 1 }}
+              onClick={() => updateDraft({ fields: [...draft.fields, { name: '', type: 'string' }] })}
+            >
+              Add Field
+            </Button>
+          </>
+        )}
+
+        {problems.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {problems.map((problem, index) => (
+              <div key={index}>{problem}</div>
+            ))}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">Save Types</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -20,7 +20,7 @@ import {
   Error as ErrorIcon,
   Warning as WarningIcon
 } from '@mui/icons-material';
-import { ValidationError } from '../utils/validation';
+import { ValidationError, getRowIndex } from '../utils/validation';
 import { AIErrorFix, getErrorFixSuggestion } from '../utils/aiService';
 
 interface ErrorFixDialogProps {
@@ -107,7 +107,7 @@ export default function ErrorFixDialog({
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
               {getSeverityIcon(error.severity)}
               <Typography variant="body2" fontWeight="bold">
-                {error.field} (Row: {error.rowId})
+                {error.field} (Row: {error.rowId || `#${getRowIndex(error.rowKey) + 1}`})
               </Typography>
             </Box>
             <Typography variant="body2">
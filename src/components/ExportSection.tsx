@@ -16,10 +16,14 @@ import {
   Stack,
   Alert
 } from '@mui/material';
-import { Download, FileDownload } from '@mui/icons-material';
+import { Download, FileDownload, AccountTree } from '@mui/icons-material';
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
+import { toExportRows } from '../utils/coercion';
+import { buildDependencyGraph, getTopologicalOrder, parseDependencies } from '../utils/dependencyGraph';
 import { Client, Worker, Task, RulesConfig } from '../types';
+import { CustomEntityType } from '../utils/schema';
+import { CustomEntityData } from '../utils/customEntities';
 import { useTheme } from '@mui/material/styles';
 
 interface ExportSectionProps {
@@ -27,14 +31,17 @@ interface ExportSectionProps {
   workers: Worker[];
   tasks: Task[];
   rules?: RulesConfig;
+  customTypes?: CustomEntityType[];
+  customData?: CustomEntityData;
 }
 
-export default function ExportSection({ clients, workers, tasks, rules }: ExportSectionProps) {
+export default function ExportSection({ clients, workers, tasks, rules, customTypes = [], customData = {} }: ExportSectionProps) {
   const [selectedFormat, setSelectedFormat] = useState<'xlsx' | 'csv'>('xlsx');
-  const [selectedData, setSelectedData] = useState<('clients' | 'workers' | 'tasks')[]>(['clients']);
+  // Built-in entity types or custom entity keys
+  const [selectedData, setSelectedData] = useState<string[]>(['clients']);
   const theme = useTheme();
 
-  const handleDataSelection = (dataType: 'clients' | 'workers' | 'tasks') => {
+  const handleDataSelection = (dataType: string) => {
     setSelectedData(prev => 
       prev.includes(dataType) 
         ? prev.filter(item => item !== dataType)
@@ -68,10 +75,15 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
           data = tasks;
           sheetName = 'Tasks';
           break;
+        default: {
+          const customType = customTypes.find(type => type.key === dataType);
+          data = customData[dataType] ?? [];
+          sheetName = customType?.label ?? dataType;
+        }
       }
 
       if (data.length > 0) {
-        const worksheet = XLSX.utils.json_to_sheet(data);
+        const worksheet = XLSX.utils.json_to_sheet(toExportRows(data));
         XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
       }
     });
@@ -104,10 +116,13 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
             data = tasks;
             sheetName = 'tasks';
             break;
+          default:
+            data = customData[dataType] ?? [];
+            sheetName = dataType;
         }
 
         if (data.length > 0) {
-          const worksheet = XLSX.utils.json_to_sheet(data);
+          const worksheet = XLSX.utils.json_to_sheet(toExportRows(data));
           const csvContent = XLSX.utils.sheet_to_csv(worksheet);
           const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
           saveAs(blob, `${sheetName}-${timestamp}.csv`);
@@ -125,11 +140,12 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
     const allData = [
       { data: clients, name: 'Clients' },
       { data: workers, name: 'Workers' },
-      { data: tasks, name: 'Tasks' }
+      { data: tasks, name: 'Tasks' },
+      ...customTypes.map(type => ({ data: customData[type.key] ?? [], name: type.label }))
     ];
     allData.forEach(({ data, name }) => {
       if (data.length > 0) {
-        const worksheet = XLSX.utils.json_to_sheet(data);
+        const worksheet = XLSX.utils.json_to_sheet(toExportRows(data));
         XLSX.utils.book_append_sheet(workbook, worksheet, name);
       }
     });
@@ -142,7 +158,7 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
       // For CSV, export each sheet separately
       allData.forEach(({ data, name }) => {
         if (data.length > 0) {
-          const worksheet = XLSX.utils.json_to_sheet(data);
+          const worksheet = XLSX.utils.json_to_sheet(toExportRows(data));
           const csvContent = XLSX.utils.sheet_to_csv(worksheet);
           const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
           saveAs(blob, `${name.toLowerCase()}-${timestamp}.csv`);
@@ -151,6 +167,25 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
     }
   };
 
+  // Tasks in dependency order; tasks in or behind a cycle are listed last without a position
+  const exportTaskOrder = () => {
+    if (tasks.length === 0) {
+      alert('No tasks available to export');
+      return;
+    }
+    const graph = buildDependencyGraph(tasks);
+    const { order, blocked } = getTopologicalOrder(graph);
+    const dependenciesOf = (taskId: string) =>
+      graph.rowsById.get(taskId)!.flatMap(index => parseDependencies(tasks[index].Dependencies)).join(', ');
+    const rows = [
+      ...order.map((taskId, index) => ({ Order: index + 1, TaskID: taskId, Dependencies: dependenciesOf(taskId), Note: '' })),
+      ...blocked.map(taskId => ({ Order: '', TaskID: taskId, Dependencies: dependenciesOf(taskId), Note: 'In or behind a dependency cycle' }))
+    ];
+    const csvContent = XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(rows));
+    const timestamp = new Date().toISOString().split('T')[0];
+    saveAs(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }), `task-order-${timestamp}.csv`);
+  };
+
   const exportRules = () => {
     if (!rules) {
       alert('No rules available to export');
@@ -184,6 +219,13 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
             control={<Checkbox checked={selectedData.includes('tasks')} onChange={() => handleDataSelection('tasks')} color="primary" />}
             label={<Typography variant="body2">Tasks</Typography>}
           />
+          {customTypes.map(type => (
+            <FormControlLabel
+              key={type.key}
+              control={<Checkbox checked={selectedData.includes(type.key)} onChange={() => handleDataSelection(type.key)} color="primary" />}
+              label={<Typography variant="body2">{type.label}</Typography>}
+            />
+          ))}
         </Box>
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, alignItems: 'center', mb: 2 }}>
           <Button
@@ -194,6 +236,14 @@ export default function ExportSection({ clients, workers, tasks, rules }: Export
           >
             Export Selected Data
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<AccountTree />}
+            onClick={exportTaskOrder}
+            disabled={tasks.length === 0}
+          >
+            Export Task Order
+          </Button>
         </Box>
         <Typography variant="body2" color="text.secondary">
           Exports include: Cleaned CSVs for Clients, Workers, Tasks, and a rules.json file.
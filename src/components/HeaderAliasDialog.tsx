@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Tabs,
+  Tab,
+  Autocomplete,
+  TextField,
+  Chip
+} from '@mui/material';
+import { EntityType } from '../types';
+import { CANONICAL_FIELDS } from '../utils/columnMapping';
+import {
+  DEFAULT_HEADER_ALIASES,
+  HeaderAliasDictionary,
+  loadHeaderAliases,
+  saveHeaderAliases
+} from '../utils/headerAliases';
+
+interface HeaderAliasDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const ENTITY_TYPES: EntityType[] = ['clients', 'workers', 'tasks'];
+
+export default function HeaderAliasDialog({ open, onClose }: HeaderAliasDialogProps) {
+  const [aliases, setAliases] = useState<HeaderAliasDictionary>(loadHeaderAliases);
+  const [entityType, setEntityType] = useState<EntityType>('clients');
+
+  // Pick up the stored dictionary each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAliases(loadHeaderAliases());
+    }
+  }, [open]);
+
+  const handleAliasesChange = (field: string, fieldAliases: string[]) => {
+    setAliases(prev => ({
+      ...prev,
+      [entityType]: {
+        ...prev[entityType],
+        [field]: fieldAliases.map(alias => alias.trim()).filter(Boolean)
+      }
+    }));
+  };
+
+  const handleSave = () => {
+    saveHeaderAliases(aliases);
+    onClose();
+  };
+
+  // Only the draft is reset; nothing is stored until Save
+  const handleReset = () => {
+    setAliases(DEFAULT_HEADER_ALIASES);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Header Aliases</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Uploaded headers matching an alias are renamed to the canonical field name.
+          Case, spaces, underscores and hyphens are ignored when matching.
+        </Typography>
+        <Tabs value={entityType} onChange={(_, value) => setEntityType(value)} sx={{ mb: 2 }}>
+          {ENTITY_TYPES.map(type => (
+            <Tab key={type} value={type} label={type.charAt(0).toUpperCase() + type.slice(1)} />
+          ))}
+        </Tabs>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {CANONICAL_FIELDS[entityType].map(field => (
+            <Autocomplete
+              key={`${entityType}-${field}`}
+              multiple
+              freeSolo
+              options={[]}
+              value={aliases[entityType]?.[field] || []}
+              onChange={(_, value) => handleAliasesChange(field, value as string[])}
+              renderTags={(value, getTagProps) =>
+                value.map((option, index) => {
+                  const { key, ...chipProps } = getTagProps({ index });
+                  return <Chip key={key} label={option} size="small" {...chipProps} />;
+                })
+              }
+              renderInput={(params) => (
+                <TextField {...params} label={field} placeholder="Type an alias and press Enter" size="small" />
+              )}
+            />
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleReset} color="warning" sx={{ mr: 'auto' }}>
+          Reset to Defaults
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">Save Aliases</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Chip,
+  Checkbox,
+  FormControlLabel,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TablePagination
+} from '@mui/material';
+import { FileData } from '../types';
+import { formatCellValue } from '../utils/coercion';
+
+interface ImportPreviewProps {
+  sheets: FileData[];
+  onCommit: (sheets: FileData[]) => void;
+  onDiscard: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+// Drop excluded rows, keeping coercion failures pointed at the right rows
+function withoutRows(sheet: FileData, excluded: Set<number>): FileData {
+  if (excluded.size === 0) return sheet;
+
+  const newIndex = new Map<number, number>();
+  const data = (sheet.data as Record<string, unknown>[]).filter((_, index) => {
+    if (excluded.has(index)) return false;
+    newIndex.set(index, newIndex.size);
+    return true;
+  });
+
+  return {
+    ...sheet,
+    data: data as FileData['data'],
+    coercionFailures: sheet.coercionFailures
+      ?.filter(failure => newIndex.has(failure.rowIndex))
+      .map(failure => ({ ...failure, rowIndex: newIndex.get(failure.rowIndex)! }))
+  };
+}
+
+export default function ImportPreview({ sheets, onCommit, onDiscard }: ImportPreviewProps) {
+  const [excludedSheets, setExcludedSheets] = useState<Set<number>>(new Set());
+  const [excludedRows, setExcludedRows] = useState<Record<number, Set<number>>>({});
+  const [pages, setPages] = useState<Record<number, number>>({});
+
+  // Reset when a new batch of sheets arrives
+  useEffect(() => {
+    setExcludedSheets(new Set());
+    setExcludedRows({});
+    setPages({});
+  }, [sheets]);
+
+  const toggleSheet = (sheetIndex: number) => {
+    setExcludedSheets(prev => {
+      const next = new Set(prev);
+      if (next.has(sheetIndex)) next.delete(sheetIndex);
+      else next.add(sheetIndex);
+      return next;
+    });
+  };
+
+  const toggleRow = (sheetIndex: number, rowIndex: number) => {
+    setExcludedRows(prev => {
+      const next = new Set(prev[sheetIndex]);
+      if (next.has(rowIndex)) next.delete(rowIndex);
+      else next.add(rowIndex);
+      return { ...prev, [sheetIndex]: next };
+    });
+  };
+
+  // Filtered sheets by their excluded-row set. Toggling a row replaces only that
+  // sheet's set, so the other sheets are not filtered again.
+  const filteredSheets = useMemo(() => new WeakMap<Set<number>, FileData>(), [sheets]);
+  const includedSheets = useMemo(() => sheets
+    .map((sheet, index) => ({ sheet, index }))
+    .filter(({ index }) => !excludedSheets.has(index))
+    .map(({ sheet, index }) => {
+      const excluded = excludedRows[index];
+      if (!excluded) return sheet;
+      if (!filteredSheets.has(excluded)) {
+        filteredSheets.set(excluded, withoutRows(sheet, excluded));
+      }
+      return filteredSheets.get(excluded)!;
+    }), [sheets, excludedSheets, excludedRows, filteredSheets]);
+  const includedRowCount = includedSheets.reduce((sum, sheet) => sum + sheet.data.length, 0);
+
+  return (
+    <Paper sx={{ p: 2, mt: 2, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)' }}>
+      <Typography variant="h6" gutterBottom>
+        Review Import
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Nothing has been imported yet. Untick sheets or rows to leave them out, then import everything in one step.
+      </Typography>
+
+      <Stack spacing={3}>
+        {sheets.map((sheet, sheetIndex) => {
+          const rows = sheet.data as Record<string, unknown>[];
+          const excluded = excludedRows[sheetIndex] ?? new Set<number>();
+          const sheetIncluded = !excludedSheets.has(sheetIndex);
+          const page = pages[sheetIndex] ?? 0;
+          const warnings = [
+            ...(sheet.parseWarnings ?? []),
+            ...(sheet.coercionFailures && sheet.coercionFailures.length > 0
+              ? [`${sheet.coercionFailures.length} cell${sheet.coercionFailures.length !== 1 ? 's' : ''} could not be converted to the expected type`]
+              : [])
+          ];
+
+          return (
+            <Box key={`${sheet.fileName}-${sheetIndex}`} sx={{ opacity: sheetIncluded ? 1 : 0.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <FormControlLabel
+                  control={<Checkbox checked={sheetIncluded} onChange={() => toggleSheet(sheetIndex)} />}
+                  label={<Typography sx={{ fontWeight: 600 }}>{sheet.fileName}</Typography>}
+                  sx={{ flexGrow: 1 }}
+                />
+                <Chip label={sheet.type.charAt(0).toUpperCase() + sheet.type.slice(1)} size="small" />
+                <Typography variant="body2" color="text.secondary">
+                  {rows.length - excluded.size} of {rows.length} rows
+                </Typography>
+              </Box>
+              {warnings.map((warning, index) => (
+                <Typography key={index} variant="caption" color="warning.main" display="block">
+                  {warning}
+                </Typography>
+              ))}
+              {sheetIncluded && (
+                <>
+                  <TableContainer sx={{ maxHeight: 360, mt: 1 }}>
+                    <Table size="small" stickyHeader>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell padding="checkbox" />
+                          {sheet.columns.map(column => (
+                            <TableCell key={column} sx={{ whiteSpace: 'nowrap' }}>{column}</TableCell>
+                          ))}
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {rows.slice(page * PREVIEW_ROWS, (page + 1) * PREVIEW_ROWS).map((row, offset) => {
+                          const rowIndex = page * PREVIEW_ROWS + offset;
+                          return (
+                            <TableRow key={rowIndex} sx={{ opacity: excluded.has(rowIndex) ? 0.4 : 1 }}>
+                              <TableCell padding="checkbox">
+                                <Checkbox
+                                  size="small"
+                                  checked={!excluded.has(rowIndex)}
+                                  onChange={() => toggleRow(sheetIndex, rowIndex)}
+                                />
+                              </TableCell>
+                              {sheet.columns.map(column => (
+                                <TableCell key={column} sx={{ whiteSpace: 'nowrap', maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                  {String(formatCellValue(row[column]))}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                  {rows.length > PREVIEW_ROWS && (
+                    <TablePagination
+                      component="div"
+                      count={rows.length}
+                      page={page}
+                      rowsPerPage={PREVIEW_ROWS}
+                      rowsPerPageOptions={[PREVIEW_ROWS]}
+                      onPageChange={(_, newPage) => setPages(prev => ({ ...prev, [sheetIndex]: newPage }))}
+                    />
+                  )}
+                </>
+              )}
+            </Box>
+          );
+        })}
+      </Stack>
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+        <Button onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => onCommit(includedSheets)}
+          disabled={includedSheets.length === 0}
+        >
+          Import {includedRowCount} Row{includedRowCount !== 1 ? 's' : ''}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
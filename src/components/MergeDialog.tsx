@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Alert,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Paper,
+  Radio,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import { EntityType, FileData } from '../types';
+import {
+  ConflictResolutions,
+  MergeMode,
+  MergeResult,
+  ID_FIELDS,
+  mergeEntityRows
+} from '../utils/dataMerge';
+import { formatCellValue } from '../utils/coercion';
+
+interface MergeDialogProps {
+  open: boolean;
+  sheets: FileData[];
+  existingData: Record<EntityType, object[]>;
+  onComplete: (merged: Partial<Record<EntityType, Record<string, unknown>[]>>) => void;
+  onCancel: () => void;
+}
+
+const MERGE_MODE_LABELS: Record<MergeMode, string> = {
+  replace: 'Replace current data',
+  append: 'Append all rows',
+  upsert: 'Upsert by ID'
+};
+
+export default function MergeDialog({ open, sheets, existingData, onComplete, onCancel }: MergeDialogProps) {
+  const [modes, setModes] = useState<Partial<Record<EntityType, MergeMode>>>({});
+  const [resolutions, setResolutions] = useState<Partial<Record<EntityType, ConflictResolutions>>>({});
+
+  const entityTypes = useMemo(
+    () => Array.from(new Set(sheets.map(sheet => sheet.type))),
+    [sheets]
+  );
+
+  // Reset when a new batch of sheets arrives
+  useEffect(() => {
+    setModes({});
+    setResolutions({});
+  }, [sheets]);
+
+  const results = useMemo(() => {
+    const merged: Partial<Record<EntityType, MergeResult>> = {};
+    entityTypes.forEach(type => {
+      const typeSheets = sheets.filter(sheet => sheet.type === type);
+      const incoming = typeSheets.map(sheet => {
+        // Uploads sharing a file name are numbered in upload order
+        const sameName = typeSheets.filter(other => other.fileName === sheet.fileName);
+        const label = sameName.length > 1 ? `${sheet.fileName} (${sameName.indexOf(sheet) + 1})` : sheet.fileName;
+        return { label, rows: sheet.data };
+      });
+      merged[type] = mergeEntityRows(existingData[type] as Record<string, unknown>[], incoming, modes[type] ?? 'upsert', type, resolutions[type]);
+    });
+    return merged;
+  }, [entityTypes, sheets, existingData, modes, resolutions]);
+
+  const handleModeChange = (type: EntityType, mode: MergeMode) => {
+    setModes(prev => ({ ...prev, [type]: mode }));
+  };
+
+  const handleResolve = (type: EntityType, id: string, versionIndex: number) => {
+    setResolutions(prev => ({ ...prev, [type]: { ...prev[type], [id]: versionIndex } }));
+  };
+
+  // Pick the oldest (current data or first sheet) or newest version for every conflict
+  const handleResolveAll = (type: EntityType, pickLast: boolean) => {
+    const all: ConflictResolutions = {};
+    results[type]?.conflicts.forEach(conflict => {
+      all[conflict.id] = pickLast ? conflict.versions.length - 1 : 0;
+    });
+    setResolutions(prev => ({ ...prev, [type]: all }));
+  };
+
+  const handleImport = () => {
+    const merged: Partial<Record<EntityType, Record<string, unknown>[]>> = {};
+    entityTypes.forEach(type => {
+      merged[type] = results[type]?.rows ?? [];
+    });
+    onComplete(merged);
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Merge Imported Data</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Choose how the imported sheets combine with the data already loaded.
+          Rows sharing an ID but holding different values are listed below so you can pick which version wins.
+          Columns missing from a sheet keep their current values.
+        </Typography>
+        {entityTypes.map(type => {
+          const result = results[type];
+          const mode = modes[type] ?? 'upsert';
+          const sheetCount = sheets.filter(sheet => sheet.type === type).length;
+
+          return (
+            <Paper key={type} sx={{ p: 2, mb: 2, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)' }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+                <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </Typography>
+                <FormControl size="small" sx={{ minWidth: 220 }}>
+                  <InputLabel>Merge Mode</InputLabel>
+                  <Select
+                    value={mode}
+                    label="Merge Mode"
+                    onChange={(e) => handleModeChange(type, e.target.value as MergeMode)}
+                  >
+                    {(Object.keys(MERGE_MODE_LABELS) as MergeMode[]).map(option => (
+                      <MenuItem key={option} value={option}>{MERGE_MODE_LABELS[option]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Box>
+              <Typography variant="body2" color="text.secondary">
+                {existingData[type].length} current rows · {sheetCount} imported sheet{sheetCount !== 1 ? 's' : ''} · {result?.rows.length ?? 0} rows after merge
+              </Typography>
+
+              {result && result.conflicts.length > 0 && (
+                <Box sx={{ mt: 2 }}>
+                  <Alert
+                    severity="warning"
+                    sx={{ mb: 1 }}
+                    action={
+                      <>
+                        <Button size="small" color="inherit" onClick={() => handleResolveAll(type, false)}>
+                          Keep Oldest
+                        </Button>
+                        <Button size="small" color="inherit" onClick={() => handleResolveAll(type, true)}>
+                          Keep Newest
+                        </Button>
+                      </>
+                    }
+                  >
+                    {result.conflicts.length} {ID_FIELDS[type]}{result.conflicts.length !== 1 ? 's have' : ' has'} conflicting values
+                  </Alert>
+                  {result.conflicts.map(conflict => {
+                    const winner = resolutions[type]?.[conflict.id] ?? conflict.versions.length - 1;
+                    return (
+                      <Box key={conflict.id} sx={{ mb: 2 }}>
+                        <Typography variant="subtitle2">{ID_FIELDS[type]} {conflict.id}</Typography>
+                        <Table size="small">
+                          <TableHead>
+                            <TableRow>
+                              <TableCell>Field</TableCell>
+                              {conflict.versions.map((version, index) => (
+                                <TableCell key={index}>
+                                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                                    <Radio
+                                      size="small"
+                                      checked={winner === index}
+                                      onChange={() => handleResolve(type, conflict.id, index)}
+                                    />
+                                    <Typography variant="caption">{version.source}</Typography>
+                                  </Box>
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          </TableHead>
+                          <TableBody>
+                            {conflict.differingFields.map(field => (
+                              <TableRow key={field}>
+                                <TableCell>{field}</TableCell>
+                                {conflict.versions.map((version, index) => (
+                                  <TableCell
+                                    key={index}
+                                    sx={{ fontWeight: winner === index ? 600 : 400, color: winner === index ? 'text.primary' : 'text.secondary' }}
+                                  >
+                                    {field in version.row ? String(formatCellValue(version.row[field])) || '(blank)' : '(no column)'}
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </Box>
+                    );
+                  })}
+                </Box>
+              )}
+            </Paper>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel Import</Button>
+        <Button onClick={handleImport} variant="contained">Import</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel
+} from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { EntityType } from '../types';
+
+interface PasteImportPanelProps {
+  disabled?: boolean;
+  // Pasted content as a file, plus the entity the user chose (undefined = auto-detect)
+  onPaste: (file: File, entityType?: EntityType) => void;
+}
+
+const AUTO_DETECT = 'auto';
+
+export default function PasteImportPanel({ disabled, onPaste }: PasteImportPanelProps) {
+  const [entityType, setEntityType] = useState<EntityType | typeof AUTO_DETECT>(AUTO_DETECT);
+  const [error, setError] = useState<string | null>(null);
+  const theme = useTheme();
+
+  // Spreadsheets put an HTML table on the clipboard alongside tab-separated text;
+  // the table keeps cells containing tabs or line breaks intact
+  const handlePaste = (event: React.ClipboardEvent) => {
+    event.preventDefault();
+    if (disabled) return;
+
+    const html = event.clipboardData.getData('text/html');
+    const text = event.clipboardData.getData('text/plain');
+    const chosenType = entityType === AUTO_DETECT ? undefined : entityType;
+
+    if (html && /<table[\s>]/i.test(html)) {
+      setError(null);
+      onPaste(new File([html], 'Pasted table.html', { type: 'text/html' }), chosenType);
+    } else if (text.trim()) {
+      setError(null);
+      onPaste(new File([text], 'Pasted data.tsv', { type: 'text/tab-separated-values' }), chosenType);
+    } else {
+      setError('The clipboard does not contain a table or text to import.');
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 3, textAlign: 'left' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, flexGrow: 1 }}>
+          Or paste a copied range
+        </Typography>
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Entity</InputLabel>
+          <Select
+            value={entityType}
+            label="Entity"
+            onChange={(e) => setEntityType(e.target.value as EntityType | typeof AUTO_DETECT)}
+          >
+            <MenuItem value={AUTO_DETECT}>Auto-detect</MenuItem>
+            <MenuItem value="clients">Clients</MenuItem>
+            <MenuItem value="workers">Workers</MenuItem>
+            <MenuItem value="tasks">Tasks</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+      <Box
+        tabIndex={0}
+        onPaste={handlePaste}
+        sx={{
+          border: `2px dashed ${theme.palette.divider}`,
+          borderRadius: 2,
+          p: 3,
+          textAlign: 'center',
+          color: 'text.secondary',
+          cursor: disabled ? 'default' : 'text',
+          outline: 'none',
+          '&:focus': { borderColor: theme.palette.primary.main }
+        }}
+      >
+        Click here and press Ctrl+V (⌘V on Mac) to paste cells copied from Excel or Google Sheets
+      </Box>
+      {error && (
+        <Typography variant="caption" color="error" display="block" sx={{ mt: 1 }}>
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+}
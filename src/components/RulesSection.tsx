@@ -45,7 +45,9 @@ import {
   Timeline,
   Group,
   Assignment,
-  Lightbulb
+  Lightbulb,
+  Psychology,
+  ReportProblem
 } from '@mui/icons-material';
 import { 
   BusinessRule, 
@@ -55,10 +57,23 @@ import {
   PhaseWindowRule,
   PrioritizationConfig,
   RulesConfig,
+  UserValidationRule,
+  SkillTaxonomy,
+  RuleOverride,
+  ValidationSuppression,
   Client,
   Worker,
   Task
 } from '../types';
+import { VALIDATION_TOGGLE_DESCRIPTIONS } from '../utils/validationToggles';
+import { describeConditions } from '../utils/ruleEngine';
+import { BUILT_IN_ENTITY_TYPES, CustomEntityType, getEntitySchema } from '../utils/schema';
+import { CustomEntityData } from '../utils/customEntities';
+import { RULE_CATALOG, RuleDefinition } from '../utils/ruleCatalog';
+import { analyzeRuleConflicts, describeBusinessRule } from '../utils/ruleConflicts';
+import { createSkillMatcher, parseSkillList } from '../utils/skillTaxonomy';
+import ValidationRuleDialog, { RuleEntityOption } from './ValidationRuleDialog';
+import SkillTaxonomyDialog from './SkillTaxonomyDialog';
 import { useTheme } from '@mui/material/styles';
 
 interface RulesSectionProps {
@@ -66,6 +81,12 @@ interface RulesSectionProps {
   workers: Worker[];
   tasks: Task[];
   validationRules: RulesConfig['validationRules'];
+  userRules: UserValidationRule[];
+  skillTaxonomy: SkillTaxonomy;
+  ruleOverrides: Record<string, RuleOverride>;
+  suppressions: ValidationSuppression[];
+  customTypes?: CustomEntityType[];
+  customData?: CustomEntityData;
   onRulesChange?: (rules: RulesConfig) => void;
   aiValidationDescriptions?: Record<string, string>;
 }
@@ -80,7 +101,7 @@ const defaultPrioritization: PrioritizationConfig = {
   workloadBalance: 50
 };
 
-export default function RulesSection({ clients, workers, tasks, validationRules, onRulesChange, aiValidationDescriptions = {} }: RulesSectionProps) {
+export default function RulesSection({ clients, workers, tasks, validationRules, userRules, skillTaxonomy, ruleOverrides, suppressions, customTypes = [], customData = {}, onRulesChange, aiValidationDescriptions = {} }: RulesSectionProps) {
   const theme = useTheme();
   // Debug logging to see what data we're receiving
   console.log('RulesSection received data:', {
@@ -98,6 +119,9 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
   const [showAddRuleDialog, setShowAddRuleDialog] = useState(false);
   const [editingRule, setEditingRule] = useState<BusinessRule | null>(null);
   const [newRuleType, setNewRuleType] = useState<'co-run' | 'slot-restriction' | 'load-limit' | 'phase-window'>('co-run');
+  const [showUserRuleDialog, setShowUserRuleDialog] = useState(false);
+  const [editingUserRule, setEditingUserRule] = useState<UserValidationRule | null>(null);
+  const [showTaxonomyDialog, setShowTaxonomyDialog] = useState(false);
 
   // Available options for rule building
   const availableTaskIDs = useMemo(() => {
@@ -146,12 +170,57 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
     return allOptions;
   }, [workers]);
 
+  // Rows of every entity, offered as fields and previews in the validation rule builder
+  const rowsByEntity = useMemo<Record<string, Record<string, unknown>[]>>(
+    () => ({ clients, workers, tasks, ...customData }),
+    [clients, workers, tasks, customData]
+  );
+
+  const ruleEntities = useMemo<RuleEntityOption[]>(() => {
+    const fieldsOf = (schemaFields: string[], rows: Record<string, unknown>[]) =>
+      [...new Set([...schemaFields, ...rows.flatMap(row => Object.keys(row))])]
+        .filter(field => field !== 'id' && !field.startsWith('_'));
+    return [
+      ...BUILT_IN_ENTITY_TYPES.map(key => ({
+        key,
+        label: key.charAt(0).toUpperCase() + key.slice(1),
+        fields: fieldsOf(getEntitySchema(key).fields.map(field => field.name), rowsByEntity[key] ?? [])
+      })),
+      ...customTypes.map(type => ({
+        key: type.key,
+        label: type.label,
+        fields: fieldsOf(type.fields.map(field => field.name), rowsByEntity[type.key] ?? [])
+      }))
+    ];
+  }, [customTypes, rowsByEntity]);
+
+  // Skill names in the data, without levels, offered when editing the taxonomy
+  const knownSkills = useMemo(() => {
+    const names = [...workers.map(worker => worker.Skills), ...tasks.map(task => task.RequiredSkills)]
+      .flatMap(skills => parseSkillList(skills).map(entry => entry.name.toLowerCase()));
+    return [...new Set(names)].sort();
+  }, [workers, tasks]);
+
+  // Business rules that contradict each other or cannot be met by the data
+  const ruleConflicts = useMemo(
+    () => analyzeRuleConflicts(businessRules, { clients, workers, tasks }, createSkillMatcher(skillTaxonomy)),
+    [businessRules, clients, workers, tasks, skillTaxonomy]
+  );
+  const conflictingRuleIds = useMemo(
+    () => new Set(ruleConflicts.flatMap(conflict => conflict.rules.map(rule => rule.id))),
+    [ruleConflicts]
+  );
+
   // Notify parent component of rules changes
   const notifyRulesChange = (newRules: Partial<RulesConfig>) => {
     const updatedRules: RulesConfig = {
       businessRules,
       prioritization,
       validationRules,
+      userRules,
+      skillTaxonomy,
+      ruleOverrides,
+      suppressions,
       ...newRules
     };
     onRulesChange?.(updatedRules);
@@ -194,6 +263,27 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
     notifyRulesChange({ validationRules: updatedValidationRules });
   };
 
+  const handleSaveUserRule = (rule: UserValidationRule) => {
+    const exists = userRules.some(existing => existing.id === rule.id);
+    notifyRulesChange({
+      userRules: exists
+        ? userRules.map(existing => existing.id === rule.id ? rule : existing)
+        : [...userRules, rule]
+    });
+    setShowUserRuleDialog(false);
+    setEditingUserRule(null);
+  };
+
+  const handleToggleUserRule = (ruleId: string, enabled: boolean) => {
+    notifyRulesChange({
+      userRules: userRules.map(rule => rule.id === ruleId ? { ...rule, enabled } : rule)
+    });
+  };
+
+  const handleDeleteUserRule = (ruleId: string) => {
+    notifyRulesChange({ userRules: userRules.filter(rule => rule.id !== ruleId) });
+  };
+
   const renderRuleCard = (rule: BusinessRule) => {
     const getRuleIcon = (type: string) => {
       switch (type) {
@@ -205,21 +295,6 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
       }
     };
 
-    const getRuleDescription = (rule: BusinessRule) => {
-      switch (rule.type) {
-        case 'co-run':
-          return `Tasks ${rule.taskIDs.join(', ')} must run together`;
-        case 'slot-restriction':
-          return `${rule.groupType === 'client' ? 'Client' : 'Worker'} group "${rule.groupName}" requires minimum ${rule.minCommonSlots} common slots`;
-        case 'load-limit':
-          return `Worker group "${rule.workerGroup}" limited to ${rule.maxSlotsPerPhase} slots per phase`;
-        case 'phase-window':
-          return `Task ${rule.taskID} allowed in phases: ${rule.allowedPhases.join(', ')}`;
-        default:
-          return rule.description || 'Custom rule';
-      }
-    };
-
     // Check if this rule came from an AI suggestion
     const isAISuggested = rule.id.startsWith('applied-');
 
@@ -232,6 +307,9 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
               <Typography variant="subtitle1" sx={{ textTransform: 'capitalize' }}>
                 {rule.type.replace('-', ' ')}
               </Typography>
+              {conflictingRuleIds.has(rule.id) && (
+                <Chip icon={<ReportProblem />} label="Conflict" color="warning" size="small" variant="outlined" />
+              )}
               {isAISuggested && (
                 <Chip 
                   icon={<Lightbulb />}
@@ -252,7 +330,7 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
             </Box>
           </Box>
           <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-            {getRuleDescription(rule)}
+            {describeBusinessRule(rule)}
           </Typography>
           {isAISuggested && rule.description && (
             <Typography variant="caption" color="primary.main" sx={{ mt: 1, display: 'block' }}>
@@ -277,8 +355,95 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
               )}
             </Box>
           }
-          secondary={isAISuggested ? aiValidationDescriptions[rule] : undefined}
+          secondary={isAISuggested ? aiValidationDescriptions[rule] : VALIDATION_TOGGLE_DESCRIPTIONS[rule]}
+        />
+        <ListItemSecondaryAction>
+          <Switch
+            checked={value}
+            onChange={(e) => handleValidationRuleChange(entity, rule, e.target.checked)}
+            color="primary"
+          />
+        </ListItemSecondaryAction>
+      </ListItem>
+    );
+  };
+
+  // Merge a change into a catalog rule's settings, dropping settings back at their defaults
+  const handleRuleOverrideChange = (rule: RuleDefinition, changes: RuleOverride) => {
+    const override = { ...ruleOverrides[rule.code], ...changes };
+    if (override.enabled !== false) delete override.enabled;
+    if (!override.severity || override.severity === rule.severity) delete override.severity;
+    const updatedOverrides = { ...ruleOverrides, [rule.code]: override };
+    if (Object.keys(override).length === 0) delete updatedOverrides[rule.code];
+    notifyRulesChange({ ruleOverrides: updatedOverrides });
+  };
+
+  const renderCatalogRule = (rule: RuleDefinition) => {
+    const override = ruleOverrides[rule.code] ?? {};
+    const suppressedCount = suppressions.filter(suppression => suppression.code === rule.code).length;
+    return (
+      <ListItem key={rule.code} sx={{ pl: 2, pr: 28 }}>
+        <ListItemText
+          primary={
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" sx={{ fontWeight: 500 }}>{rule.title}</Typography>
+              <Chip label={rule.code} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+              {suppressedCount > 0 && <Chip label={`${suppressedCount} suppressed`} size="small" />}
+            </Box>
+          }
+          secondary={rule.description}
         />
+        <ListItemSecondaryAction sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Select
+            size="small"
+            value={override.severity ?? rule.severity}
+            disabled={override.enabled === false}
+            onChange={(e) => handleRuleOverrideChange(rule, { severity: e.target.value as 'error' | 'warning' })}
+            sx={{ minWidth: 110 }}
+          >
+            <MenuItem value="error">Error</MenuItem>
+            <MenuItem value="warning">Warning</MenuItem>
+          </Select>
+          <Switch
+            checked={override.enabled !== false}
+            onChange={(e) => handleRuleOverrideChange(rule, { enabled: e.target.checked })}
+            color="primary"
+          />
+        </ListItemSecondaryAction>
+      </ListItem>
+    );
+  };
+
+  const renderUserRule = (rule: UserValidationRule) => {
+    const entityLabel = ruleEntities.find(entity => entity.key === rule.entityType)?.label ?? rule.entityType;
+    return (
+      <ListItem key={rule.id} sx={{ pl: 2, pr: 20 }}>
+        <ListItemText
+          primary={
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" sx={{ fontWeight: 500 }}>{rule.name}</Typography>
+              <Chip label={entityLabel} size="small" variant="outlined" />
+              <Chip label={rule.severity} size="small" color={rule.severity === 'error' ? 'error' : 'warning'} />
+              {rule.id.startsWith('applied-') && (
+                <Chip icon={<Lightbulb />} label="AI Suggested" color="primary" size="small" variant="outlined" />
+              )}
+            </Box>
+          }
+          secondary={`${describeConditions(rule)} → ${rule.message}`}
+        />
+        <ListItemSecondaryAction>
+          <Switch
+            checked={rule.enabled}
+            onChange={(e) => handleToggleUserRule(rule.id, e.target.checked)}
+            color="primary"
+          />
+          <IconButton size="small" onClick={() => { setEditingUserRule(rule); setShowUserRuleDialog(true); }}>
+            <Edit />
+          </IconButton>
+          <IconButton size="small" onClick={() => handleDeleteUserRule(rule.id)} color="error">
+            <Delete />
+          </IconButton>
+        </ListItemSecondaryAction>
       </ListItem>
     );
   };
@@ -310,6 +475,27 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
         ) : (
           <List sx={{ mt: 1 }}>{businessRules.map(renderRuleCard)}</List>
         )}
+        {businessRules.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="subtitle2" gutterBottom>
+              Rule Conflicts
+            </Typography>
+            {ruleConflicts.length === 0 ? (
+              <Alert severity="success" sx={{ borderRadius: 2 }}>
+                The business rules are consistent with each other and with the data.
+              </Alert>
+            ) : ruleConflicts.map((conflict, index) => (
+              <Alert key={index} severity={conflict.severity} sx={{ mb: 1, borderRadius: 2 }}>
+                <Typography variant="body2">{conflict.message}</Typography>
+                <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                  {conflict.rules.map(rule => (
+                    <Chip key={rule.id} label={describeBusinessRule(rule)} size="small" variant="outlined" />
+                  ))}
+                </Box>
+              </Alert>
+            ))}
+          </Box>
+        )}
         {/* Data Availability Indicator */}
         <Box sx={{ mt: 2, p: 2, bgcolor: theme.palette.background.default, borderRadius: 2 }}>
           <Typography variant="subtitle2" gutterBottom>
@@ -362,19 +548,88 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
         <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
           Validation Rules
         </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Switch checks on or off; the data tables are re-validated as soon as a rule changes.
+        </Typography>
         <List>
           {Object.entries(validationRules).map(([entity, rules]) => (
             <Box key={entity} sx={{ mb: 2 }}>
               <Typography variant="subtitle2" sx={{ textTransform: 'capitalize', mb: 1 }}>{entity}</Typography>
               <List disablePadding>
                 {Object.entries(rules).map(([rule, value]) =>
-                  value ? renderValidationRule(entity as any, rule, value) : null
+                  renderValidationRule(entity as 'clients' | 'workers' | 'tasks', rule, value)
                 )}
               </List>
             </Box>
           ))}
         </List>
       </Paper>
+      {/* Custom Validation Rules Section */}
+      <Paper sx={{ p: { xs: 1, sm: 3 }, mb: 3, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)', background: theme.palette.background.paper }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Custom Validation Rules
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<Add />}
+            onClick={() => { setEditingUserRule(null); setShowUserRuleDialog(true); }}
+            sx={{ borderRadius: 2, fontWeight: 500 }}
+          >
+            Add Validation Rule
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Flag rows whose fields match conditions such as a pattern, a range, a list of values or another field
+          (e.g. DueDate before StartDate).
+        </Typography>
+        {userRules.length === 0 ? (
+          <Alert severity="info" sx={{ mt: 2, borderRadius: 2, background: theme.palette.background.default, color: theme.palette.text.secondary }}>
+            No custom validation rules defined.
+          </Alert>
+        ) : (
+          <List>{userRules.map(renderUserRule)}</List>
+        )}
+      </Paper>
+      {/* Rule Catalog Section */}
+      <Paper sx={{ p: { xs: 1, sm: 3 }, mb: 3, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)', background: theme.palette.background.paper }}>
+        <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
+          Rule Catalog
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Every built-in check with its stable code. Switch a rule off or change its severity; individual issues can be
+          suppressed with a justification from the validation summary.
+        </Typography>
+        <List>{RULE_CATALOG.map(renderCatalogRule)}</List>
+      </Paper>
+      {/* Skill Taxonomy Section */}
+      <Paper sx={{ p: { xs: 1, sm: 3 }, mb: 3, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)', background: theme.palette.background.paper }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600 }}>
+            Skill Taxonomy
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<Psychology />}
+            onClick={() => setShowTaxonomyDialog(true)}
+            sx={{ borderRadius: 2, fontWeight: 500 }}
+          >
+            Edit Taxonomy
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Synonyms and parent skills used when matching RequiredSkills to worker Skills. Skills may carry a
+          proficiency level, e.g. python:3.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          {skillTaxonomy.synonyms.map(group => (
+            <Chip key={group.join('|')} label={group.join(' = ')} size="small" variant="outlined" />
+          ))}
+          {Object.entries(skillTaxonomy.children).map(([parent, children]) => (
+            <Chip key={parent} label={`${parent} ⊃ ${children.join(', ')}`} size="small" color="primary" variant="outlined" />
+          ))}
+        </Box>
+      </Paper>
       {/* Prioritization Section */}
       <Paper sx={{ p: { xs: 1, sm: 3 }, mb: 3, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)', background: theme.palette.background.paper }}>
         <Typography variant="h6" gutterBottom sx={{ fontWeight: 600 }}>
@@ -499,6 +754,27 @@ export default function RulesSection({ clients, workers, tasks, validationRules,
         availableWorkerGroups={availableWorkerGroups}
         editingRule={editingRule}
       />
+      <SkillTaxonomyDialog
+        open={showTaxonomyDialog}
+        taxonomy={skillTaxonomy}
+        knownSkills={knownSkills}
+        onSave={(taxonomy) => {
+          notifyRulesChange({ skillTaxonomy: taxonomy });
+          setShowTaxonomyDialog(false);
+        }}
+        onClose={() => setShowTaxonomyDialog(false)}
+      />
+      <ValidationRuleDialog
+        open={showUserRuleDialog}
+        rule={editingUserRule}
+        entities={ruleEntities}
+        rowsByEntity={rowsByEntity}
+        onSave={handleSaveUserRule}
+        onClose={() => {
+          setShowUserRuleDialog(false);
+          setEditingUserRule(null);
+        }}
+      />
     </Box>
   );
 }
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Autocomplete,
+  TextField,
+  Chip,
+  IconButton,
+  AutocompleteRenderGetTagProps
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { SkillTaxonomy } from '../types';
+import { DEFAULT_SKILL_TAXONOMY } from '../utils/skillTaxonomy';
+
+interface SkillTaxonomyDialogProps {
+  open: boolean;
+  taxonomy: SkillTaxonomy;
+  // Skills found in the data, offered as suggestions
+  knownSkills: string[];
+  onSave: (taxonomy: SkillTaxonomy) => void;
+  onClose: () => void;
+}
+
+// Parent skills are edited as rows so a parent can be renamed without losing its children
+type ParentRow = { parent: string; children: string[] };
+
+function cleanNames(names: string[]): string[] {
+  return [...new Set(names.map(name => name.trim()).filter(Boolean))];
+}
+
+export default function SkillTaxonomyDialog({ open, taxonomy, knownSkills, onSave, onClose }: SkillTaxonomyDialogProps) {
+  const [synonyms, setSynonyms] = useState<string[][]>(taxonomy.synonyms);
+  const [parents, setParents] = useState<ParentRow[]>([]);
+
+  const loadTaxonomy = (source: SkillTaxonomy) => {
+    setSynonyms(source.synonyms);
+    setParents(Object.entries(source.children).map(([parent, children]) => ({ parent, children })));
+  };
+
+  // Start from the current taxonomy each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      loadTaxonomy(taxonomy);
+    }
+  }, [open, taxonomy]);
+
+  const handleSave = () => {
+    const children: Record<string, string[]> = {};
+    parents.forEach(({ parent, children: childNames }) => {
+      const name = parent.trim();
+      if (name) children[name] = cleanNames([...(children[name] ?? []), ...childNames]);
+    });
+    onSave({
+      synonyms: synonyms.map(cleanNames).filter(group => group.length > 1),
+      children
+    });
+  };
+
+  const renderChips = (value: string[], getTagProps: AutocompleteRenderGetTagProps) =>
+    value.map((option, index) => {
+      const { key, ...chipProps } = getTagProps({ index });
+      return <Chip key={key} label={option} size="small" {...chipProps} />;
+    });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Skill Taxonomy</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Skills are matched case-insensitively. A worker skill covers a required skill when they are synonyms
+          or the required skill is one of its children, e.g. a &quot;frontend&quot; worker covers &quot;react&quot;.
+          Levels such as python:3 require a worker level of at least 3; skills listed without a level meet any level.
+        </Typography>
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>Synonyms</Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 1 }}>
+          {synonyms.map((group, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Autocomplete
+                multiple
+                freeSolo
+                options={knownSkills}
+                value={group}
+                onChange={(_, value) => setSynonyms(prev => prev.map((item, i) => i === index ? value as string[] : item))}
+                renderTags={renderChips}
+                renderInput={(params) => (
+                  <TextField {...params} size="small" placeholder={group.length === 0 ? 'First name is used in messages' : undefined} />
+                )}
+                sx={{ flexGrow: 1 }}
+              />
+              <IconButton size="small" onClick={() => setSynonyms(prev => prev.filter((_, i) => i !== index))}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Box>
+        <Button size="small" startIcon={<Add />} onClick={() => setSynonyms(prev => [...prev, []])} sx={{ mb: 3 }}>
+          Add Synonym Group
+        </Button>
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>Parent Skills</Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 1 }}>
+          {parents.map((row, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <TextField
+                size="small"
+                label="Parent"
+                value={row.parent}
+                onChange={(e) => setParents(prev => prev.map((item, i) => i === index ? { ...item, parent: e.target.value } : item))}
+                sx={{ width: 180 }}
+              />
+              <Autocomplete
+                multiple
+                freeSolo
+                options={knownSkills}
+                value={row.children}
+                onChange={(_, value) => setParents(prev => prev.map((item, i) => i === index ? { ...item, children: value as string[] } : item))}
+                renderTags={renderChips}
+                renderInput={(params) => <TextField {...params} size="small" label="Covers" />}
+                sx={{ flexGrow: 1 }}
+              />
+              <IconButton size="small" onClick={() => setParents(prev => prev.filter((_, i) => i !== index))}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Box>
+        <Button size="small" startIcon={<Add />} onClick={() => setParents(prev => [...prev, { parent: '', children: [] }])}>
+          Add Parent Skill
+        </Button>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => loadTaxonomy(DEFAULT_SKILL_TAXONOMY)} color="warning" sx={{ mr: 'auto' }}>
+          Reset to Defaults
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">Save Taxonomy</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
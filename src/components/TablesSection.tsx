@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, RefObject } from 'react';
 import { 
   Box, 
   Typography, 
@@ -14,10 +14,20 @@ import {
   Alert
 } from '@mui/material';
 import { DataGrid, GridColDef, GridApi } from '@mui/x-data-grid';
-import { Error, Warning } from '@mui/icons-material';
-import { Client, Worker, Task } from '../types';
-import { ValidationError, validateAllData, getCellClassName } from '../utils/validation';
+import { Error, Warning, Category, UploadFile, FormatListNumbered, MergeType } from '@mui/icons-material';
+import { Client, Worker, Task, UserValidationRule, SkillTaxonomy, RuleOverride, ValidationSuppression } from '../types';
+import { ValidationError, getCellClassName, getRowIndex, getRowKey } from '../utils/validation';
+import { IncrementalValidationState, RowChange, validateIncrementally } from '../utils/incrementalValidation';
+import { createSuppression } from '../utils/ruleCatalog';
+import { RAW_VALUES_KEY, coerceRow, coerceCustomRow, formatCellValue } from '../utils/coercion';
+import { CustomEntityType, EntitySchema, getEntitySchema } from '../utils/schema';
+import { CustomEntityData, importCustomEntityFile } from '../utils/customEntities';
+import { normalizePhaseFields } from '../utils/phaseModel';
+import { mergeOverlappingSlots } from '../utils/timeSlots';
+import { SUPPORTED_EXTENSIONS } from '../utils/fileFormat';
+import { ValidationToggles } from '../utils/validationToggles';
 import ValidationSummary from './ValidationSummary';
+import CustomEntityTypeDialog from './CustomEntityTypeDialog';
 import { useTheme } from '@mui/material/styles';
 
 interface TablesSectionProps {
@@ -25,6 +35,17 @@ interface TablesSectionProps {
   workers: Worker[];
   tasks: Task[];
   onDataUpdate: (type: 'clients' | 'workers' | 'tasks', data: any[]) => void;
+  customTypes: CustomEntityType[];
+  customData: CustomEntityData;
+  onCustomDataUpdate: (key: string, rows: Record<string, unknown>[]) => void;
+  onCustomTypesChange: (types: CustomEntityType[]) => void;
+  // Re-validates whenever a toggle, user rule, the skill taxonomy or a rule setting changes
+  validationRules?: ValidationToggles;
+  userRules?: UserValidationRule[];
+  skillTaxonomy?: SkillTaxonomy;
+  ruleOverrides?: Record<string, RuleOverride>;
+  suppressions?: ValidationSuppression[];
+  onSuppressionsChange?: (suppressions: ValidationSuppression[]) => void;
 }
 
 interface TabPanelProps {
@@ -53,91 +74,179 @@ function TabPanel(props: TabPanelProps) {
   );
 }
 
-export default function TablesSection({ clients, workers, tasks, onDataUpdate }: TablesSectionProps) {
+export default function TablesSection({
+  clients,
+  workers,
+  tasks,
+  onDataUpdate,
+  customTypes,
+  customData,
+  onCustomDataUpdate,
+  onCustomTypesChange,
+  validationRules,
+  userRules,
+  skillTaxonomy,
+  ruleOverrides,
+  suppressions = [],
+  onSuppressionsChange
+}: TablesSectionProps) {
   const [tabValue, setTabValue] = useState(0);
   const [showValidationSummary, setShowValidationSummary] = useState(false);
   const [navigationMessage, setNavigationMessage] = useState<string | null>(null);
   const [validationTrigger, setValidationTrigger] = useState(0); // Force re-validation
+  const [showTypeDialog, setShowTypeDialog] = useState(false);
   
   // Grid API references
   const clientGridRef = useRef<GridApi | null>(null);
   const workerGridRef = useRef<GridApi | null>(null);
   const taskGridRef = useRef<GridApi | null>(null);
+  const customGridRefs = useRef<Record<string, RefObject<GridApi | null>>>({});
 
-  // Run validation on current state (including any edits)
-  const validationErrors = useMemo(() => {
-    console.log('Running validation on current state:', {
-      clients: clients.length,
-      workers: workers.length,
-      tasks: tasks.length,
-      validationTrigger
-    });
-    
-    // Log sample data to see what we're validating
-    if (clients.length > 0) {
-      console.log('Sample client data for validation:', clients[0]);
-    }
-    if (workers.length > 0) {
-      console.log('Sample worker data for validation:', workers[0]);
-    }
-    if (tasks.length > 0) {
-      console.log('Sample task data for validation:', tasks[0]);
-    }
-    
-    const result = validateAllData(clients, workers, tasks);
-    console.log('Validation result:', {
-      errors: result.errors.length,
-      isValid: result.isValid,
-      errorsList: result.errors
-    });
-    
-    // Log the first few errors to see what's failing
-    if (result.errors.length > 0) {
-      console.log('First 5 validation errors:', result.errors.slice(0, 5).map(error => ({
-        entityType: error.entityType,
-        rowId: error.rowId,
-        field: error.field,
-        message: error.message,
-        severity: error.severity
-      })));
-    }
-    
-    return result.errors;
-  }, [clients, workers, tasks, validationTrigger]);
+  // Indexes and results of the last validation, and the rows edited since then
+  const validationStateRef = useRef<IncrementalValidationState | null>(null);
+  const changedRowsRef = useRef<RowChange[]>([]);
+
+  const trackRowChange = (entityType: string, rowIndex: number) => {
+    changedRowsRef.current.push({ entityType, rowIndex });
+  };
+
+  // Results of the last validation. Validation runs in an effect rather than during
+  // render, since validateIncrementally updates the previous state in place.
+  const [validation, setValidation] = useState<Pick<IncrementalValidationState, 'errors' | 'suppressed'>>({ errors: [], suppressed: [] });
+  const { errors: validationErrors, suppressed: suppressedErrors } = validation;
+
+  useEffect(() => {
+    // Only the rows edited since the last run (and the rows depending on them) are revalidated
+    const result = validateIncrementally(
+      validationStateRef.current,
+      clients,
+      workers,
+      tasks,
+      { customTypes, customData, validationRules, userRules, skillTaxonomy, ruleOverrides, suppressions },
+      changedRowsRef.current
+    );
+    validationStateRef.current = result;
+    changedRowsRef.current = [];
+    setValidation({ errors: result.errors, suppressed: result.suppressed });
+  }, [clients, workers, tasks, customTypes, customData, validationRules, userRules, skillTaxonomy, ruleOverrides, suppressions, validationTrigger]);
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
 
   const handleProcessRowUpdate = (newRow: any, oldRow: any, type: 'clients' | 'workers' | 'tasks') => {
-    let updatedData: any[];
+    // The grid row id is the row key, so only the edited row changes even when its ID is shared
+    const rowIndex = getRowIndex(oldRow.id);
+    const { id, ...changes } = newRow;
+    const updateRows = <T extends Client | Worker | Task>(rows: T[]): T[] =>
+      rows.map((row, index) => index === rowIndex ? coerceRow({ ...row, ...changes }, type, false).row as T : row);
+
+    trackRowChange(type, rowIndex);
     switch (type) {
       case 'clients':
-        updatedData = clients.map(row =>
-          row.ClientID === oldRow.ClientID ? { ...row, ...newRow } : row
-        );
-        onDataUpdate('clients', updatedData);
+        onDataUpdate('clients', updateRows(clients));
         break;
       case 'workers':
-        updatedData = workers.map(row =>
-          row.WorkerID === oldRow.WorkerID ? { ...row, ...newRow } : row
-        );
-        onDataUpdate('workers', updatedData);
+        onDataUpdate('workers', updateRows(workers));
         break;
       case 'tasks':
-        updatedData = tasks.map(row =>
-          row.TaskID === oldRow.TaskID ? { ...row, ...newRow } : row
-        );
-        onDataUpdate('tasks', updatedData);
+        onDataUpdate('tasks', updateRows(tasks));
         break;
     }
     setValidationTrigger(prev => prev + 1);
-    return { ...oldRow, ...newRow };
+    return { ...oldRow, ...changes, id };
+  };
+
+  // Rewrite every PreferredPhases and AvailableSlots cell as a sorted phase array
+  const handleNormalizePhases = () => {
+    const normalizedTasks = normalizePhaseFields(tasks, ['PreferredPhases']);
+    const normalizedWorkers = normalizePhaseFields(workers, ['AvailableSlots']);
+    if (normalizedTasks.changedCells > 0) {
+      onDataUpdate('tasks', normalizedTasks.rows);
+    }
+    if (normalizedWorkers.changedCells > 0) {
+      onDataUpdate('workers', normalizedWorkers.rows);
+    }
+    const changedCells = normalizedTasks.changedCells + normalizedWorkers.changedCells;
+    setNavigationMessage(changedCells > 0
+      ? `Normalized ${changedCells} phase list${changedCells !== 1 ? 's' : ''}`
+      : 'All phase lists are already normalized');
+  };
+
+  // Combine overlapping AvailableSlots time ranges of each worker into single slots
+  const handleMergeSlots = () => {
+    const merged = mergeOverlappingSlots(workers);
+    if (merged.changedCells > 0) {
+      onDataUpdate('workers', merged.rows);
+    }
+    setNavigationMessage(merged.changedCells > 0
+      ? `Merged overlapping slots of ${merged.changedCells} worker${merged.changedCells !== 1 ? 's' : ''}`
+      : 'No workers have overlapping slots');
   };
 
+  // Set one field of a custom entity row, coercing it against the type's schema
+  const updateCustomRow = (type: CustomEntityType, rowIndex: number, changes: Record<string, unknown>) => {
+    const rows = customData[type.key] ?? [];
+    trackRowChange(type.key, rowIndex);
+    onCustomDataUpdate(type.key, rows.map((row, index) =>
+      index === rowIndex ? coerceCustomRow({ ...row, ...changes }, type, false).row : row
+    ));
+    setValidationTrigger(prev => prev + 1);
+  };
+
+  const handleCustomRowUpdate = (newRow: Record<string, unknown>, oldRow: Record<string, unknown>, type: CustomEntityType) => {
+    const rowIndex = getRowIndex(String(oldRow.id));
+    const { id, ...changes } = newRow;
+    updateCustomRow(type, rowIndex, changes);
+    return { ...oldRow, ...newRow, id };
+  };
+
+  // Replace a custom entity's rows with the first sheet of the chosen file
+  const handleCustomFileImport = async (type: CustomEntityType, file: File) => {
+    try {
+      const { rows, failures, warnings } = importCustomEntityFile(await file.arrayBuffer(), file.name, type);
+      onCustomDataUpdate(type.key, rows);
+      const notes = [...warnings];
+      if (failures.length > 0) {
+        notes.push(`${failures.length} cell${failures.length !== 1 ? 's' : ''} could not be converted to the expected type`);
+      }
+      setNavigationMessage(`Imported ${rows.length} ${type.label} row${rows.length !== 1 ? 's' : ''}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`);
+    } catch (err) {
+      setNavigationMessage(`Could not import ${file.name}: ${err instanceof globalThis.Error ? err.message : err}`);
+    }
+  };
+
+  // One grid API reference per custom entity type, created on first use
+  const getCustomGridRef = (key: string) => {
+    if (!customGridRefs.current[key]) {
+      customGridRefs.current[key] = { current: null };
+    }
+    return customGridRefs.current[key];
+  };
+
+  const getGridRef = (entityType: string): RefObject<GridApi | null> => {
+    switch (entityType) {
+      case 'clients':
+        return clientGridRef;
+      case 'workers':
+        return workerGridRef;
+      case 'tasks':
+        return taskGridRef;
+      default:
+        return getCustomGridRef(entityType);
+    }
+  };
+
+  // Describe the row an error belongs to by its ID, or by its position when it has none
+  const describeErrorRow = (error: ValidationError) =>
+    error.rowId ? `row ${error.rowId}` : `row ${getRowIndex(error.rowKey) + 1}`;
+
   const handleNavigateToError = (error: ValidationError) => {
     // Switch to the correct tab first
-    const tabMap = { clients: 0, workers: 1, tasks: 2 };
+    const tabMap: Record<string, number> = { clients: 0, workers: 1, tasks: 2 };
+    customTypes.forEach((type, index) => {
+      tabMap[type.key] = 3 + index;
+    });
     const targetTab = tabMap[error.entityType];
     if (targetTab !== undefined && targetTab !== tabValue) {
       setTabValue(targetTab);
@@ -145,106 +254,24 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
 
     // Wait for tab switch and grid to be ready
     setTimeout(() => {
-      const gridApi = error.entityType === 'clients' ? clientGridRef.current 
-                   : error.entityType === 'workers' ? workerGridRef.current 
-                   : taskGridRef.current;
-
-      if (gridApi) {
-        try {
-          // Get all row IDs to debug
-          const allRowIds = gridApi.getAllRowIds();
-          
-          // Try to find the row with the prefixed ID format
-          const prefixedRowId = `${error.entityType}-${error.rowId}`;
-          
-          // Check if the prefixed row exists
-          const rowExists = allRowIds.includes(prefixedRowId);
-          
-          if (rowExists) {
-            // Get the row node
-            const rowNode = gridApi.getRowNode(prefixedRowId);
-            
-            if (rowNode) {
-              // Scroll to the row
-              gridApi.scrollToIndexes({ rowIndex: rowNode.index });
-              
-              // Focus on the specific cell
-              gridApi.setCellFocus(prefixedRowId, error.field);
-              
-              // Highlight the cell briefly
-              setNavigationMessage(`Navigated to ${error.entityType} - ${error.field} in row ${error.rowId}`);
-            } else {
-              setNavigationMessage(`Row node not found for ${prefixedRowId} in ${error.entityType}`);
-            }
-          } else {
-            // Try to find by searching through the data
-            const data = error.entityType === 'clients' ? clients 
-                       : error.entityType === 'workers' ? workers 
-                       : tasks;
-            
-            const matchingRow = data.find(row => {
-              const idField = error.entityType === 'clients' ? 'ClientID' 
-                           : error.entityType === 'workers' ? 'WorkerID' 
-                           : 'TaskID';
-              return row[idField] === error.rowId;
-            });
-            
-            if (matchingRow) {
-              const actualRowId = matchingRow.id;
-              
-              if (allRowIds.includes(actualRowId)) {
-                const rowNode = gridApi.getRowNode(actualRowId);
-                if (rowNode) {
-                  gridApi.scrollToIndexes({ rowIndex: rowNode.index });
-                  gridApi.setCellFocus(actualRowId, error.field);
-                  setNavigationMessage(`Navigated to ${error.entityType} - ${error.field} in row ${error.rowId}`);
-                } else {
-                  setNavigationMessage(`Row node not found for ${actualRowId} in ${error.entityType}`);
-                }
-              } else {
-                setNavigationMessage(`Row ID ${actualRowId} not found in ${error.entityType} grid. Available: ${allRowIds.join(', ')}`);
-              }
-            } else {
-              // Try to find by index if we can't find by ID
-              const data = error.entityType === 'clients' ? clients 
-                         : error.entityType === 'workers' ? workers 
-                         : tasks;
-              
-              // Find the row index by matching the original data
-              const rowIndex = data.findIndex(row => {
-                const idField = error.entityType === 'clients' ? 'ClientID' 
-                             : error.entityType === 'workers' ? 'WorkerID' 
-                             : 'TaskID';
-                return row[idField] === error.rowId;
-              });
-              
-              if (rowIndex !== -1) {
-                // Try to navigate by index
-                try {
-                  gridApi.scrollToIndexes({ rowIndex });
-                  // Get the actual row ID at this index
-                  const rowIds = gridApi.getAllRowIds();
-                  if (rowIds[rowIndex]) {
-                    gridApi.setCellFocus(rowIds[rowIndex], error.field);
-                    setNavigationMessage(`Navigated to ${error.entityType} - ${error.field} at row ${rowIndex + 1}`);
-                  } else {
-                    setNavigationMessage(`Could not find row ID at index ${rowIndex}`);
-                  }
-                } catch (scrollErr) {
-                  console.error('Scroll error:', scrollErr);
-                  setNavigationMessage(`Could not scroll to row ${rowIndex + 1} in ${error.entityType}`);
-                }
-              } else {
-                setNavigationMessage(`Row with ${error.entityType === 'clients' ? 'ClientID' : error.entityType === 'workers' ? 'WorkerID' : 'TaskID'} ${error.rowId} not found in ${error.entityType} data`);
-              }
-            }
-          }
-        } catch (err) {
-          console.error('Navigation error:', err);
-          setNavigationMessage(`Could not navigate to ${error.field} in ${error.entityType}: ${err}`);
-        }
-      } else {
+      const gridApi = getGridRef(error.entityType).current;
+      if (!gridApi) {
         setNavigationMessage(`Grid API not available for ${error.entityType}`);
+        return;
+      }
+      try {
+        // Grid row ids are the row keys the errors carry
+        const rowIndex = gridApi.getRowIndexRelativeToVisibleRows(error.rowKey);
+        if (rowIndex === undefined || !gridApi.getRow(error.rowKey)) {
+          setNavigationMessage(`Could not find ${describeErrorRow(error)} in ${error.entityType}`);
+          return;
+        }
+        gridApi.scrollToIndexes({ rowIndex });
+        gridApi.setCellFocus(error.rowKey, error.field);
+        setNavigationMessage(`Navigated to ${error.entityType} - ${error.field} in ${describeErrorRow(error)}`);
+      } catch (err) {
+        console.error('Navigation error:', err);
+        setNavigationMessage(`Could not navigate to ${error.field} in ${error.entityType}: ${err}`);
       }
     }, 200);
   };
@@ -260,7 +287,8 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
       case 'clients':
         updatedData = [...clients];
         if (updatedData[rowIndex]) {
-          updatedData[rowIndex] = { ...updatedData[rowIndex], [field]: newValue };
+          updatedData[rowIndex] = coerceRow({ ...updatedData[rowIndex], [field]: newValue }, 'clients', false).row;
+          trackRowChange('clients', rowIndex);
           onDataUpdate('clients', updatedData);
           console.log('Client manually updated:', updatedData[rowIndex]);
         }
@@ -268,7 +296,8 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
       case 'workers':
         updatedData = [...workers];
         if (updatedData[rowIndex]) {
-          updatedData[rowIndex] = { ...updatedData[rowIndex], [field]: newValue };
+          updatedData[rowIndex] = coerceRow({ ...updatedData[rowIndex], [field]: newValue }, 'workers', false).row;
+          trackRowChange('workers', rowIndex);
           onDataUpdate('workers', updatedData);
           console.log('Worker manually updated:', updatedData[rowIndex]);
         }
@@ -276,7 +305,8 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
       case 'tasks':
         updatedData = [...tasks];
         if (updatedData[rowIndex]) {
-          updatedData[rowIndex] = { ...updatedData[rowIndex], [field]: newValue };
+          updatedData[rowIndex] = coerceRow({ ...updatedData[rowIndex], [field]: newValue }, 'tasks', false).row;
+          trackRowChange('tasks', rowIndex);
           onDataUpdate('tasks', updatedData);
           console.log('Task manually updated:', updatedData[rowIndex]);
         }
@@ -286,8 +316,20 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
 
   const handleFixError = (error: ValidationError, suggestedValue?: string) => {
     console.log('Fixing error:', error, 'with suggested value:', suggestedValue);
+    const rowIndex = getRowIndex(error.rowKey);
+
+    const customType = customTypes.find(type => type.key === error.entityType);
+    if (customType) {
+      const value = suggestedValue ?? prompt(`Enter new value for ${error.field}:`);
+      if (!(customData[customType.key] ?? [])[rowIndex]) {
+        alert(`Could not find the row to fix. Please check the data.`);
+      } else if (value !== null) {
+        updateCustomRow(customType, rowIndex, { [error.field]: value });
+      }
+      return;
+    }
     
-    // Find the row index for this error
+    // Find the data for this error
     let data: any[] = [];
     let entityType: 'clients' | 'workers' | 'tasks' = 'clients';
     
@@ -306,21 +348,14 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
         break;
     }
     
-    // Find the row by ID
-    const rowIndex = data.findIndex(row => {
-      const idField = error.entityType === 'clients' ? 'ClientID' 
-                   : error.entityType === 'workers' ? 'WorkerID' 
-                   : 'TaskID';
-      return String(row[idField]) === error.rowId;
-    });
-    
-    if (rowIndex !== -1) {
+    if (data[rowIndex]) {
       console.log(`Found row at index ${rowIndex} for ${error.entityType} ${error.rowId}`);
       
       if (suggestedValue !== undefined) {
         // Apply the AI-suggested fix
         const updatedData = [...data];
-        updatedData[rowIndex] = { ...updatedData[rowIndex], [error.field]: suggestedValue };
+        updatedData[rowIndex] = coerceRow({ ...updatedData[rowIndex], [error.field]: suggestedValue }, entityType, false).row;
+        trackRowChange(entityType, rowIndex);
         
         console.log(`Applied AI fix: ${error.field} = ${suggestedValue}`);
         onDataUpdate(entityType, updatedData);
@@ -332,28 +367,36 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
         handleManualEdit(entityType, rowIndex, error.field);
       }
     } else {
-      console.log(`Could not find row for ${error.entityType} ${error.rowId}`);
+      console.log(`Could not find row ${error.rowKey}`);
       alert(`Could not find the row to fix. Please check the data.`);
     }
   };
 
   // Dynamically generate columns based on actual data
-  const generateColumns = (data: any[], entityType: 'clients' | 'workers' | 'tasks'): GridColDef[] => {
+  // Cells are matched to errors by the row's grid ID, which is its row key
+  const generateColumns = (
+    data: any[],
+    schema: EntitySchema,
+    errors: ValidationError[] = validationErrors
+  ): GridColDef[] => {
     if (data.length === 0) return [];
     
     // Get all unique column names from the data
     const allKeys = new Set<string>();
     data.forEach(item => {
       Object.keys(item).forEach(key => {
-        if (key !== 'id') { // Exclude the id field we added
+        if (key !== 'id' && key !== RAW_VALUES_KEY) { // Exclude the id field we added and raw import values
           allKeys.add(key);
         }
       });
     });
     
-    // Convert to column definitions
-    const columns: GridColDef[] = Array.from(allKeys).map(key => {
-      // Determine column width based on content type
+    // Schema fields come first in schema order; other columns follow as imported
+    const schemaFields = schema.fields.filter(field => allKeys.has(field.name));
+    const extraKeys = Array.from(allKeys).filter(key => !schema.fields.some(field => field.name === key));
+
+    // Width heuristics for columns the schema does not describe
+    const guessWidth = (key: string) => {
       let width = 150;
       if (key.toLowerCase().includes('email')) width = 250;
       if (key.toLowerCase().includes('name') || key.toLowerCase().includes('title')) width = 200;
@@ -362,62 +405,67 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
       if (key.toLowerCase().includes('phone')) width = 150;
       if (key.toLowerCase().includes('date')) width = 130;
       if (key.toLowerCase().includes('json') || key.toLowerCase().includes('slots') || key.toLowerCase().includes('phases')) width = 200;
-      
-      return {
-        field: key,
-        headerName: key,
-        width: width,
-        editable: true,
-        flex: key.toLowerCase().includes('description') || key.toLowerCase().includes('address') ? 1 : undefined,
-        cellClassName: (params) => {
-          const rowId = params.row.id;
-          const className = getCellClassName(key, validationErrors, rowId);
-          return className;
-        }
-      };
-    });
-    
-    // Sort columns to put IDs first, then common fields
-    const priorityFields = ['ClientID', 'WorkerID', 'TaskID', 'Name', 'Title', 'Email', 'Phone'];
-    columns.sort((a, b) => {
-      const aIndex = priorityFields.indexOf(a.field);
-      const bIndex = priorityFields.indexOf(b.field);
-      
-      if (aIndex === -1 && bIndex === -1) return 0;
-      if (aIndex === -1) return 1;
-      if (bIndex === -1) return -1;
-      
-      return aIndex - bIndex;
-    });
+      return width;
+    };
+
+    // Convert to column definitions
+    const columns: GridColDef[] = [
+      ...schemaFields.map(field => ({ key: field.name, width: field.width ?? 150, description: field.description })),
+      ...extraKeys.map(key => ({ key, width: guessWidth(key), description: undefined }))
+    ].map(({ key, width, description }) => ({
+      field: key,
+      headerName: key,
+      description,
+      width: width,
+      editable: true,
+      flex: key.toLowerCase().includes('description') || key.toLowerCase().includes('address') ? 1 : undefined,
+      // Show lists and JSON as editable text; edits are coerced back in processRowUpdate
+      valueGetter: (value) => formatCellValue(value),
+      cellClassName: (params) => {
+        const className = getCellClassName(key, errors, String(params.row.id));
+        return className;
+      }
+    }));
     
     return columns;
   };
 
-  const clientColumns = generateColumns(clients, 'clients');
-  const workerColumns = generateColumns(workers, 'workers');
-  const taskColumns = generateColumns(tasks, 'tasks');
-
-  // Ensure each row has a unique ID for DataGrid
-  const clientsWithIds = clients.map((client, index) => ({
-    ...client,
-    id: client.ClientID ? `client-${client.ClientID}-${index}` : `client-${index}` // Ensure unique with index
-  }));
-
-  const workersWithIds = workers.map((worker, index) => ({
-    ...worker,
-    id: worker.WorkerID ? `worker-${worker.WorkerID}-${index}` : `worker-${index}` // Ensure unique with index
-  }));
+  const clientColumns = generateColumns(clients, getEntitySchema('clients'));
+  const workerColumns = generateColumns(workers, getEntitySchema('workers'));
+  const taskColumns = generateColumns(tasks, getEntitySchema('tasks'));
 
-  const tasksWithIds = tasks.map((task, index) => ({
-    ...task,
-    id: task.TaskID ? `task-${task.TaskID}-${index}` : `task-${index}` // Ensure unique with index
-  }));
+  // Row keys are unique even when entity IDs are blank or duplicated
+  const clientsWithIds = clients.map((client, index) => ({ ...client, id: getRowKey('clients', index) }));
+  const workersWithIds = workers.map((worker, index) => ({ ...worker, id: getRowKey('workers', index) }));
+  const tasksWithIds = tasks.map((task, index) => ({ ...task, id: getRowKey('tasks', index) }));
 
   const errorCount = validationErrors.filter(e => e.severity === 'error').length;
   const warningCount = validationErrors.filter(e => e.severity === 'warning').length;
 
   const theme = useTheme();
 
+  const gridSx = {
+    background: theme.palette.background.paper,
+    borderRadius: 2,
+    boxShadow: 'none',
+    '& .MuiDataGrid-row:hover': {
+      background: '#f3f4f6',
+    },
+    '& .MuiDataGrid-cell': {
+      borderBottom: `1px solid ${theme.palette.divider}`,
+    },
+    '& .MuiDataGrid-cell--error': {
+      background: '#fef2f2',
+      color: theme.palette.error.main,
+    },
+    '& .MuiDataGrid-columnHeaders': {
+      background: '#f7f8fa',
+      fontWeight: 600,
+      fontSize: '1rem',
+      color: theme.palette.text.primary,
+    },
+  };
+
   return (
     <Box sx={{ maxWidth: 1200, mx: 'auto', py: 2 }}>
       <Typography variant="h4" sx={{ mb: 3, fontWeight: 700, letterSpacing: -1 }}>
@@ -430,6 +478,25 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
           </Typography>
           
           <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <Button variant="outlined" startIcon={<Category />} onClick={() => setShowTypeDialog(true)}>
+              Entity Types
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<FormatListNumbered />}
+              onClick={handleNormalizePhases}
+              disabled={tasks.length === 0 && workers.length === 0}
+            >
+              Normalize Phases
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<MergeType />}
+              onClick={handleMergeSlots}
+              disabled={workers.length === 0}
+            >
+              Merge Overlapping Slots
+            </Button>
             {(errorCount > 0 || warningCount > 0) && (
               <Button
                 variant="outlined"
@@ -505,6 +572,27 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
                 </Box>
               } 
             />
+            {customTypes.map(type => {
+              const typeErrors = validationErrors.filter(e => e.entityType === type.key);
+              const typeErrorCount = typeErrors.filter(e => e.severity === 'error').length;
+              const typeWarningCount = typeErrors.filter(e => e.severity === 'warning').length;
+              return (
+                <Tab
+                  key={type.key}
+                  label={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {type.label}
+                      <Chip label={(customData[type.key] ?? []).length} size="small" />
+                      {typeErrorCount > 0 ? (
+                        <Chip label={typeErrorCount} size="small" color="error" />
+                      ) : typeWarningCount > 0 ? (
+                        <Chip label={typeWarningCount} size="small" color="warning" />
+                      ) : null}
+                    </Box>
+                  }
+                />
+              );
+            })}
           </Tabs>
         </Box>
         
@@ -522,32 +610,9 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
                 }}
                 disableRowSelectionOnClick
                 editMode="cell"
-                onGridReady={(params) => {
-                  clientGridRef.current = params.api;
-                  console.log('Client grid API captured:', params.api);
-                }}
+                apiRef={clientGridRef}
                 processRowUpdate={(newRow, oldRow) => handleProcessRowUpdate(newRow, oldRow, 'clients')}
-                sx={{
-                  background: theme.palette.background.paper,
-                  borderRadius: 2,
-                  boxShadow: 'none',
-                  '& .MuiDataGrid-row:hover': {
-                    background: '#f3f4f6',
-                  },
-                  '& .MuiDataGrid-cell': {
-                    borderBottom: `1px solid ${theme.palette.divider}`,
-                  },
-                  '& .MuiDataGrid-cell--error': {
-                    background: '#fef2f2',
-                    color: theme.palette.error.main,
-                  },
-                  '& .MuiDataGrid-columnHeaders': {
-                    background: '#f7f8fa',
-                    fontWeight: 600,
-                    fontSize: '1rem',
-                    color: theme.palette.text.primary,
-                  },
-                }}
+                sx={gridSx}
               />
             ) : (
               <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
@@ -573,32 +638,9 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
                 }}
                 disableRowSelectionOnClick
                 editMode="cell"
-                onGridReady={(params) => {
-                  workerGridRef.current = params.api;
-                  console.log('Worker grid API captured:', params.api);
-                }}
+                apiRef={workerGridRef}
                 processRowUpdate={(newRow, oldRow) => handleProcessRowUpdate(newRow, oldRow, 'workers')}
-                sx={{
-                  background: theme.palette.background.paper,
-                  borderRadius: 2,
-                  boxShadow: 'none',
-                  '& .MuiDataGrid-row:hover': {
-                    background: '#f3f4f6',
-                  },
-                  '& .MuiDataGrid-cell': {
-                    borderBottom: `1px solid ${theme.palette.divider}`,
-                  },
-                  '& .MuiDataGrid-cell--error': {
-                    background: '#fef2f2',
-                    color: theme.palette.error.main,
-                  },
-                  '& .MuiDataGrid-columnHeaders': {
-                    background: '#f7f8fa',
-                    fontWeight: 600,
-                    fontSize: '1rem',
-                    color: theme.palette.text.primary,
-                  },
-                }}
+                sx={gridSx}
               />
             ) : (
               <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
@@ -624,32 +666,9 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
                 }}
                 disableRowSelectionOnClick
                 editMode="cell"
-                onGridReady={(params) => {
-                  taskGridRef.current = params.api;
-                  console.log('Task grid API captured:', params.api);
-                }}
+                apiRef={taskGridRef}
                 processRowUpdate={(newRow, oldRow) => handleProcessRowUpdate(newRow, oldRow, 'tasks')}
-                sx={{
-                  background: theme.palette.background.paper,
-                  borderRadius: 2,
-                  boxShadow: 'none',
-                  '& .MuiDataGrid-row:hover': {
-                    background: '#f3f4f6',
-                  },
-                  '& .MuiDataGrid-cell': {
-                    borderBottom: `1px solid ${theme.palette.divider}`,
-                  },
-                  '& .MuiDataGrid-cell--error': {
-                    background: '#fef2f2',
-                    color: theme.palette.error.main,
-                  },
-                  '& .MuiDataGrid-columnHeaders': {
-                    background: '#f7f8fa',
-                    fontWeight: 600,
-                    fontSize: '1rem',
-                    color: theme.palette.text.primary,
-                  },
-                }}
+                sx={gridSx}
               />
             ) : (
               <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
@@ -660,19 +679,86 @@ export default function TablesSection({ clients, workers, tasks, onDataUpdate }:
             )}
           </Box>
         </TabPanel>
+
+        {customTypes.map((type, index) => {
+          const rows = customData[type.key] ?? [];
+          const rowsWithIds = rows.map((row, rowIndex) => ({ ...row, id: getRowKey(type.key, rowIndex) }));
+          const columns = generateColumns(rows, type, validationErrors.filter(e => e.entityType === type.key));
+          return (
+            <TabPanel key={type.key} value={tabValue} index={3 + index}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 1 }}>
+                <Button component="label" size="small" startIcon={<UploadFile />}>
+                  Import {type.label} File
+                  <input
+                    type="file"
+                    hidden
+                    accept={SUPPORTED_EXTENSIONS.join(',')}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleCustomFileImport(type, file);
+                      e.target.value = '';
+                    }}
+                  />
+                </Button>
+              </Box>
+              <Box sx={{ height: 400, width: '100%' }}>
+                {rows.length > 0 ? (
+                  <DataGrid
+                    rows={rowsWithIds}
+                    columns={columns}
+                    pageSizeOptions={[5, 10, 25]}
+                    initialState={{
+                      pagination: {
+                        paginationModel: { page: 0, pageSize: 10 },
+                      },
+                    }}
+                    disableRowSelectionOnClick
+                    editMode="cell"
+                    apiRef={getCustomGridRef(type.key)}
+                    processRowUpdate={(newRow, oldRow) => handleCustomRowUpdate(newRow, oldRow, type)}
+                    sx={gridSx}
+                  />
+                ) : (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+                    <Typography variant="body1" color="text.secondary">
+                      No {type.label.toLowerCase()} data available. Import a file with {type.idField} and the other fields of this type.
+                    </Typography>
+                  </Box>
+                )}
+              </Box>
+            </TabPanel>
+          );
+        })}
       </Paper>
 
+      <CustomEntityTypeDialog
+        open={showTypeDialog}
+        types={customTypes}
+        onSave={(types) => {
+          onCustomTypesChange(types);
+          setShowTypeDialog(false);
+          setTabValue(prev => Math.min(prev, 2 + types.length));
+        }}
+        onClose={() => setShowTypeDialog(false)}
+      />
+
       <ValidationSummary
         open={showValidationSummary}
         onClose={() => setShowValidationSummary(false)}
         errors={validationErrors}
+        suppressed={suppressedErrors}
+        userRules={userRules}
         onNavigateToError={handleNavigateToError}
         onFixError={handleFixError}
+        onSuppressError={(error, justification) => onSuppressionsChange?.([...suppressions, createSuppression(error, justification)])}
+        onRestoreError={(suppressionId) => onSuppressionsChange?.(suppressions.filter(item => item.id !== suppressionId))}
         allData={{
           clients,
           workers,
           tasks
         }}
+        customTypes={customTypes}
+        customData={customData}
       />
 
       <Snackbar
@@ -1,81 +1,222 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { 
   Box, 
   Typography, 
   Paper, 
   Button, 
   Alert, 
-  CircularProgress,
+  LinearProgress,
   Chip,
   Stack
 } from '@mui/material';
-import { CloudUpload, CheckCircle, Error, Warning } from '@mui/icons-material';
-import { parseFile } from '../utils/fileParser';
-import { FileData } from '../types';
+import { CheckCircle } from '@mui/icons-material';
+import { parseFile, ParseProgress } from '../utils/fileParser';
+import { CsvDialect, EntityType, FileData } from '../types';
 import { useTheme } from '@mui/material/styles';
+import ColumnMappingDialog from './ColumnMappingDialog';
+import HeaderAliasDialog from './HeaderAliasDialog';
+import MergeDialog from './MergeDialog';
+import CsvDialectPanel from './CsvDialectPanel';
+import ImportPreview from './ImportPreview';
+import PasteImportPanel from './PasteImportPanel';
+import { loadHeaderAliases } from '../utils/headerAliases';
+import { SUPPORTED_EXTENSIONS } from '../utils/fileFormat';
 
 interface UploadSectionProps {
   onDataUpdate: (type: 'clients' | 'workers' | 'tasks', data: any[]) => void;
+  existingData: Record<EntityType, object[]>;
 }
 
-export default function UploadSection({ onDataUpdate }: UploadSectionProps) {
+// A parsed file is kept with its source so it can be re-parsed with another dialect
+interface ParsedUpload {
+  file: File;
+  sheets: FileData[];
+  entityType?: EntityType;
+}
+
+// Data as it was before the last import, so the import can be rolled back
+interface ImportSnapshot {
+  previous: Partial<Record<EntityType, object[]>>;
+  sheets: FileData[];
+}
+
+// Clipboard text is always tab-separated UTF-8, so a pasted single column is not
+// split on the commas it contains
+const PASTED_TEXT_DIALECT: Partial<CsvDialect> = { delimiter: '\t', encoding: 'utf-8' };
+
+export default function UploadSection({ onDataUpdate, existingData }: UploadSectionProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<FileData[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [uploadSuccess, setUploadSuccess] = useState<string | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const [parsedUploads, setParsedUploads] = useState<ParsedUpload[]>([]);
+  const [showMapping, setShowMapping] = useState(false);
+  const [stagedSheets, setStagedSheets] = useState<FileData[]>([]);
+  const [mergeSheets, setMergeSheets] = useState<FileData[]>([]);
+  const [lastImport, setLastImport] = useState<ImportSnapshot | null>(null);
+  const [showAliasDialog, setShowAliasDialog] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const theme = useTheme();
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
+  // entityType forces the entity of every sheet. A dialect given up front is used
+  // instead of the detected one and skips the dialect review.
+  const processFiles = async (files: File[], entityType?: EntityType, dialect?: Partial<CsvDialect>) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     setIsUploading(true);
     setError(null);
     setUploadSuccess(null);
+    setParseProgress(null);
+
+    const uploads: ParsedUpload[] = [];
+    const aliases = loadHeaderAliases();
 
     try {
-      let totalProcessed = 0;
-      let totalRecords = 0;
-
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Validate file type
-        const validTypes = [
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.ms-excel',
-          'text/csv'
-        ];
-        
-        if (!validTypes.includes(file.type)) {
-          throw new Error(`Invalid file type: ${file.name}. Please upload .xlsx, .xls, or .csv files.`);
-        }
-
-        const fileDataArray = await parseFile(file);
-        
-        // Process each sheet's data
-        fileDataArray.forEach(fileData => {
-          // Update the corresponding data state
-          onDataUpdate(fileData.type, fileData.data);
-          
-          // Add to uploaded files list
-          setUploadedFiles(prev => [...prev, fileData]);
-          
-          totalProcessed++;
-          totalRecords += fileData.data.length;
+      for (const file of files) {
+        // Format is detected from the file contents while parsing, since
+        // browsers report inconsistent or empty MIME types for CSV and TSV
+        const fileDataArray = await parseFile(file, {
+          signal: abortController.signal,
+          onProgress: setParseProgress,
+          aliases,
+          dialect,
+          entityType
         });
+        uploads.push({ file, sheets: fileDataArray, entityType });
+      }
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        setError('Upload cancelled. Sheets parsed before cancelling can still be imported.');
+      } else {
+        setError(err instanceof Error ? err.message : 'An error occurred while uploading files');
       }
+    } finally {
+      abortControllerRef.current = null;
+      setIsUploading(false);
+      setParseProgress(null);
+    }
+
+    // Hand parsed sheets to the column-mapping step before committing them,
+    // after the user has had a chance to review how delimited files were read
+    if (uploads.length > 0) {
+      setParsedUploads(uploads);
+      setShowMapping(dialect !== undefined || !uploads.some(upload => upload.sheets[0]?.dialect));
+    }
+  };
+
+  // Re-parse a delimited file after the user overrides its detected dialect
+  const handleDialectChange = async (uploadIndex: number, dialect: CsvDialect) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsUploading(true);
+    setError(null);
 
-      setUploadSuccess(`Successfully processed ${totalProcessed} sheet${totalProcessed !== 1 ? 's' : ''} with ${totalRecords} total records. Check the Tables section for validation status.`);
+    try {
+      const upload = parsedUploads[uploadIndex];
+      const sheets = await parseFile(upload.file, {
+        signal: abortController.signal,
+        onProgress: setParseProgress,
+        aliases: loadHeaderAliases(),
+        dialect,
+        entityType: upload.entityType
+      });
+      setParsedUploads(prev => prev.map((existing, index) => index === uploadIndex ? { ...existing, sheets } : existing));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while uploading files');
+      if (!abortController.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'An error occurred while re-parsing the file');
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsUploading(false);
+      setParseProgress(null);
     }
   };
 
+  const parsedSheets = useMemo(() => parsedUploads.flatMap(upload => upload.sheets), [parsedUploads]);
+  const pendingSheets = useMemo(() => showMapping ? parsedSheets : [], [showMapping, parsedSheets]);
+  const ambiguousSheetCount = parsedSheets.filter(sheet => sheet.detection?.ambiguous).length;
+
+  const commitSheets = (sheets: FileData[], merged: Partial<Record<EntityType, Record<string, unknown>[]>>) => {
+    let totalRecords = 0;
+    const previous: Partial<Record<EntityType, object[]>> = {};
+
+    // Update the corresponding data state once per entity
+    (Object.keys(merged) as EntityType[]).forEach(type => {
+      const rows = merged[type] ?? [];
+      previous[type] = existingData[type];
+      onDataUpdate(type, rows);
+      totalRecords += rows.length;
+    });
+
+    // Add to uploaded files list
+    setUploadedFiles(prev => [...prev, ...sheets]);
+    setLastImport({ previous, sheets });
+    setUploadSuccess(`Successfully processed ${sheets.length} sheet${sheets.length !== 1 ? 's' : ''} with ${totalRecords} total records. Check the Tables section for validation status.`);
+  };
+
+  // Mapped sheets are staged for review; nothing is committed until the user confirms
+  const handleMappingComplete = (mappedSheets: FileData[]) => {
+    setParsedUploads([]);
+    setShowMapping(false);
+    setStagedSheets(mappedSheets);
+  };
+
+  const handleStagedCommit = (mappedSheets: FileData[]) => {
+    setStagedSheets([]);
+
+    // Ask how to merge when sheets would overwrite loaded data or each other
+    const types = mappedSheets.map(sheet => sheet.type);
+    const needsMerge = types.some((type, index) => types.indexOf(type) !== index || existingData[type].length > 0);
+    if (needsMerge) {
+      setMergeSheets(mappedSheets);
+      return;
+    }
+
+    const merged: Partial<Record<EntityType, Record<string, unknown>[]>> = {};
+    mappedSheets.forEach(sheet => {
+      merged[sheet.type] = sheet.data;
+    });
+    commitSheets(mappedSheets, merged);
+  };
+
+  const handleMergeComplete = (merged: Partial<Record<EntityType, Record<string, unknown>[]>>) => {
+    commitSheets(mergeSheets, merged);
+    setMergeSheets([]);
+  };
+
+  // Restore every entity the last import touched and forget its sheets
+  const handleUndoImport = () => {
+    if (!lastImport) return;
+
+    (Object.keys(lastImport.previous) as EntityType[]).forEach(type => {
+      onDataUpdate(type, lastImport.previous[type] ?? []);
+    });
+    setUploadedFiles(prev => prev.filter(file => !lastImport.sheets.includes(file)));
+    setLastImport(null);
+    setUploadSuccess(null);
+    setError('The last import was rolled back.');
+  };
+
+  const handleMappingCancel = () => {
+    setParsedUploads([]);
+    setShowMapping(false);
+    setStagedSheets([]);
+    setMergeSheets([]);
+    setError('Import cancelled. No data was changed.');
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    await processFiles(Array.from(files));
+    event.target.value = '';
+  };
+
   const handleDragOver = (event: React.DragEvent) => {
     event.preventDefault();
   };
@@ -85,49 +226,11 @@ export default function UploadSection({ onDataUpdate }: UploadSectionProps) {
     const files = event.dataTransfer.files;
     if (files.length === 0) return;
 
-    setIsUploading(true);
-    setError(null);
-    setUploadSuccess(null);
-
-    try {
-      let totalProcessed = 0;
-      let totalRecords = 0;
-
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Validate file type
-        const validTypes = [
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'application/vnd.ms-excel',
-          'text/csv'
-        ];
-        
-        if (!validTypes.includes(file.type)) {
-          throw new Error(`Invalid file type: ${file.name}. Please upload .xlsx, .xls, or .csv files.`);
-        }
-
-        const fileDataArray = await parseFile(file);
-        
-        // Process each sheet's data
-        fileDataArray.forEach(fileData => {
-          // Update the corresponding data state
-          onDataUpdate(fileData.type, fileData.data);
-          
-          // Add to uploaded files list
-          setUploadedFiles(prev => [...prev, fileData]);
-          
-          totalProcessed++;
-          totalRecords += fileData.data.length;
-        });
-      }
+    await processFiles(Array.from(files));
+  };
 
-      setUploadSuccess(`Successfully processed ${totalProcessed} sheet${totalProcessed !== 1 ? 's' : ''} with ${totalRecords} total records. Check the Tables section for validation status.`);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred while uploading files');
-    } finally {
-      setIsUploading(false);
-    }
+  const handleCancelUpload = () => {
+    abortControllerRef.current?.abort();
   };
 
   const getEntityTypeColor = (type: string) => {
@@ -150,30 +253,113 @@ export default function UploadSection({ onDataUpdate }: UploadSectionProps) {
             variant="outlined"
             color="primary"
             component="label"
+            disabled={isUploading}
             sx={{ borderRadius: 2, fontWeight: 500, px: 4, py: 1.5, fontSize: 18 }}
           >
             CHOOSE FILES OR DRAG & DROP
-            <input type="file" hidden multiple onChange={handleFileUpload} />
+            <input type="file" hidden multiple accept={SUPPORTED_EXTENSIONS.join(',')} onChange={handleFileUpload} />
           </Button>
         </Box>
         <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-          Supported formats: <b>.xlsx, .xls, .csv</b>
+          Supported formats: <b>.xlsx, .xls, .ods, .csv, .tsv, .json, .ndjson</b>
         </Typography>
+        <Button size="small" onClick={() => setShowAliasDialog(true)} sx={{ mb: 2 }}>
+          Edit Header Aliases
+        </Button>
         <Typography variant="body2" color="text.secondary">
           Files will be automatically categorized as Clients, Workers, or Tasks based on column headers.<br />
+          You can review the detected type, map each column to a known field and preview the rows before importing.<br />
           Multi-sheet Excel files are supported - each sheet will be processed separately.<br />
           Data will be validated automatically after upload.
         </Typography>
+        <PasteImportPanel
+          disabled={isUploading}
+          onPaste={(file, entityType) => processFiles([file], entityType, PASTED_TEXT_DIALECT)}
+        />
       </Paper>
 
+      {isUploading && (
+        <Paper sx={{ p: 2, mt: 2, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              {parseProgress
+                ? `Parsing ${parseProgress.fileName} - ${parseProgress.sheetName} (sheet ${parseProgress.sheetIndex + 1} of ${parseProgress.sheetCount}): ${parseProgress.processedRows.toLocaleString()} / ${parseProgress.totalRows.toLocaleString()} rows`
+                : 'Reading file...'}
+            </Typography>
+            <Button size="small" color="error" onClick={handleCancelUpload}>
+              Cancel
+            </Button>
+          </Box>
+          <LinearProgress
+            variant={parseProgress && parseProgress.totalRows > 0 ? 'determinate' : 'indeterminate'}
+            value={parseProgress && parseProgress.totalRows > 0 ? (parseProgress.processedRows / parseProgress.totalRows) * 100 : 0}
+            sx={{ height: 6, borderRadius: 3 }}
+          />
+        </Paper>
+      )}
+
+      {parsedUploads.length > 0 && !showMapping && (
+        <Paper sx={{ p: 2, mt: 2, borderRadius: 3, boxShadow: '0 1px 4px 0 rgba(0,0,0,0.03)' }}>
+          <Typography variant="h6" gutterBottom>
+            Detected Text Format
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Check how each delimited file was read. Changing a setting re-parses the file.
+          </Typography>
+          <Stack spacing={3}>
+            {parsedUploads.map((upload, index) => upload.sheets[0]?.dialect && (
+              <CsvDialectPanel
+                key={`${upload.file.name}-${index}`}
+                fileName={upload.file.name}
+                dialect={upload.sheets[0].dialect}
+                columns={upload.sheets[0].columns}
+                rowCount={upload.sheets[0].data.length}
+                disabled={isUploading}
+                onChange={(dialect) => handleDialectChange(index, dialect)}
+              />
+            ))}
+          </Stack>
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+            <Button onClick={handleMappingCancel} disabled={isUploading}>
+              Discard
+            </Button>
+            <Button variant="contained" onClick={() => setShowMapping(true)} disabled={isUploading}>
+              Continue to Column Mapping
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {ambiguousSheetCount > 0 && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {ambiguousSheetCount} sheet{ambiguousSheetCount !== 1 ? 's' : ''} could not be matched to an entity type with confidence. Please confirm the type before importing.
+        </Alert>
+      )}
+
       {error && (
         <Alert severity="error" sx={{ mt: 2 }}>
           {error}
         </Alert>
       )}
 
+      {stagedSheets.length > 0 && (
+        <ImportPreview
+          sheets={stagedSheets}
+          onCommit={handleStagedCommit}
+          onDiscard={handleMappingCancel}
+        />
+      )}
+
       {uploadSuccess && (
-        <Alert severity="success" sx={{ mt: 2 }}>
+        <Alert
+          severity="success"
+          sx={{ mt: 2 }}
+          action={lastImport && (
+            <Button color="inherit" size="small" onClick={handleUndoImport}>
+              Undo Import
+            </Button>
+          )}
+        >
           {uploadSuccess}
         </Alert>
       )}
@@ -193,7 +379,25 @@ export default function UploadSection({ onDataUpdate }: UploadSectionProps) {
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     {file.data.length} records detected
+                    {file.detection && (file.detection.ambiguous || file.detection.candidates[0].type !== file.type
+                      ? ' · type confirmed manually'
+                      : ` · ${Math.round(file.detection.candidates[0].confidence * 100)}% type confidence`)}
                   </Typography>
+                  {file.coercionFailures && file.coercionFailures.length > 0 && (
+                    <Typography variant="caption" color="warning.main" display="block">
+                      {file.coercionFailures.length} cell{file.coercionFailures.length !== 1 ? 's' : ''} could not be converted to the expected type and will be flagged during validation
+                    </Typography>
+                  )}
+                  {file.renamedHeaders && file.renamedHeaders.length > 0 && (
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Renamed headers: {file.renamedHeaders.map(rename => `${rename.original} → ${rename.normalized}`).join(', ')}
+                    </Typography>
+                  )}
+                  {file.parseWarnings?.map((warning, warningIndex) => (
+                    <Typography key={warningIndex} variant="caption" color="text.secondary" display="block">
+                      {warning}
+                    </Typography>
+                  ))}
                 </Box>
                 <Chip 
                   label={file.type.charAt(0).toUpperCase() + file.type.slice(1)} 
@@ -205,6 +409,26 @@ export default function UploadSection({ onDataUpdate }: UploadSectionProps) {
           </Stack>
         </Box>
       )}
+
+      <ColumnMappingDialog
+        open={pendingSheets.length > 0}
+        sheets={pendingSheets}
+        onComplete={handleMappingComplete}
+        onCancel={handleMappingCancel}
+      />
+
+      <MergeDialog
+        open={mergeSheets.length > 0}
+        sheets={mergeSheets}
+        existingData={existingData}
+        onComplete={handleMergeComplete}
+        onCancel={handleMappingCancel}
+      />
+
+      <HeaderAliasDialog
+        open={showAliasDialog}
+        onClose={() => setShowAliasDialog(false)}
+      />
     </Box>
   );
 } 
\ No newline at end of file
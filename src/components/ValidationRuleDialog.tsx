@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  Autocomplete,
+  Paper,
+  Alert
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { ConditionOperator, RuleCondition, UserValidationRule } from '../types';
+import { COMPARISON_OPERATORS, CONDITION_OPERATORS, checkUserRule, ruleMatches } from '../utils/ruleEngine';
+
+export interface RuleEntityOption {
+  key: string;
+  label: string;
+  fields: string[];
+}
+
+interface ValidationRuleDialogProps {
+  open: boolean;
+  // Rule being edited, or null to create one
+  rule: UserValidationRule | null;
+  entities: RuleEntityOption[];
+  // Current data, used to preview how many rows the rule reports
+  rowsByEntity: Record<string, Record<string, unknown>[]>;
+  onSave: (rule: UserValidationRule) => void;
+  onClose: () => void;
+}
+
+function createRule(entityType: string): UserValidationRule {
+  return {
+    id: `user-rule-${Date.now()}`,
+    name: '',
+    entityType,
+    match: 'all',
+    conditions: [{ field: '', operator: 'empty' }],
+    message: '',
+    severity: 'error',
+    enabled: true
+  };
+}
+
+export default function ValidationRuleDialog({ open, rule, entities, rowsByEntity, onSave, onClose }: ValidationRuleDialogProps) {
+  const [draft, setDraft] = useState<UserValidationRule>(() => rule ?? createRule(entities[0]?.key ?? 'clients'));
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(rule ?? createRule(entities[0]?.key ?? 'clients'));
+      setProblems([]);
+    }
+  }, [open, rule, entities]);
+
+  const fields = entities.find(entity => entity.key === draft.entityType)?.fields ?? [];
+  const rows = rowsByEntity[draft.entityType] ?? [];
+  const complete = draft.conditions.length > 0 && draft.conditions.every(condition => condition.field);
+  const matchingRows = complete ? rows.filter(row => ruleMatches(row, draft)).length : 0;
+
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setDraft(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => i === index ? { ...condition, ...changes } : condition)
+    }));
+  };
+
+  const handleOperatorChange = (index: number, operator: ConditionOperator) => {
+    const condition = draft.conditions[index];
+    updateCondition(index, {
+      operator,
+      value: operator === 'between' ? ['', ''] : operator === 'empty' || operator === 'exists' ? undefined : '',
+      compareField: COMPARISON_OPERATORS.includes(operator) ? condition.compareField : undefined
+    });
+  };
+
+  const handleSave = () => {
+    const found = checkUserRule(draft);
+    if (found.length > 0) {
+      setProblems(found);
+      return;
+    }
+    onSave(draft);
+  };
+
+  const renderValueInput = (condition: RuleCondition, index: number) => {
+    switch (condition.operator) {
+      case 'empty':
+      case 'exists':
+        return null;
+      case 'between': {
+        const [min, max] = Array.isArray(condition.value) ? condition.value : ['', ''];
+        return (
+          <>
+            <TextField size="small" label="From" value={min ?? ''} sx={{ width: 120 }}
+              onChange={(e) => updateCondition(index, { value: [e.target.value, max ?? ''] })} />
+            <TextField size="small" label="To" value={max ?? ''} sx={{ width: 120 }}
+              onChange={(e) => updateCondition(index, { value: [min ?? '', e.target.value] })} />
+          </>
+        );
+      }
+      default: {
+        const canCompareField = COMPARISON_OPERATORS.includes(condition.operator);
+        return (
+          <>
+            {canCompareField && (
+              <Select
+                size="small"
+                value={condition.compareField !== undefined ? 'field' : 'value'}
+                onChange={(e) => updateCondition(index, e.target.value === 'field'
+                  ? { compareField: '', value: undefined }
+                  : { compareField: undefined, value: '' })}
+              >
+                <MenuItem value="value">value</MenuItem>
+                <MenuItem value="field">field</MenuItem>
+              </Select>
+            )}
+            {condition.compareField !== undefined ? (
+              <Autocomplete
+                freeSolo
+                size="small"
+                options={fields}
+                value={condition.compareField}
+                onInputChange={(_, value) => updateCondition(index, { compareField: value })}
+                renderInput={(params) => <TextField {...params} label="Other field" />}
+                sx={{ minWidth: 180 }}
+              />
+            ) : (
+              <TextField
+                size="small"
+                label={condition.operator === 'matches' ? 'Regular expression' : condition.operator === 'in-list' ? 'Comma-separated values' : 'Value'}
+                value={Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '')}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                sx={{ minWidth: 180 }}
+              />
+            )}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{rule ? 'Edit Validation Rule' : 'Add Validation Rule'}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, mt: 1, mb: 2 }}>
+          <TextField
+            label="Rule Name"
+            size="small"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            sx={{ flexGrow: 1 }}
+          />
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Entity</InputLabel>
+            <Select
+              value={draft.entityType}
+              label="Entity"
+              onChange={(e) => setDraft(prev => ({ ...prev, entityType: e.target.value }))}
+            >
+              {entities.map(entity => (
+                <MenuItem key={entity.key} value={entity.key}>{entity.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Typography variant="body2">Report a row when</Typography>
+          <Select
+            size="small"
+            value={draft.match}
+            onChange={(e) => setDraft(prev => ({ ...prev, match: e.target.value as 'all' | 'any' }))}
+          >
+            <MenuItem value="all">all</MenuItem>
+            <MenuItem value="any">any</MenuItem>
+          </Select>
+          <Typography variant="body2">of these conditions hold:</Typography>
+        </Box>
+
+        {draft.conditions.map((condition, index) => (
+          <Paper key={index} variant="outlined" sx={{ p: 1.5, mb: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <FormControlLabel
+              control={<Checkbox size="small" checked={!!condition.negate} onChange={(e) => updateCondition(index, { negate: e.target.checked })} />}
+              label="not"
+              sx={{ mr: 0 }}
+            />
+            <Autocomplete
+              freeSolo
+              size="small"
+              options={fields}
+              value={condition.field}
+              onInputChange={(_, value) => updateCondition(index, { field: value })}
+              renderInput={(params) => <TextField {...params} label="Field" />}
+              sx={{ minWidth: 180 }}
+            />
+            <Select
+              size="small"
+              value={condition.operator}
+              onChange={(e) => handleOperatorChange(index, e.target.value as ConditionOperator)}
+            >
+              {CONDITION_OPERATORS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+            {renderValueInput(condition, index)}
+            <IconButton
+              size="small"
+              sx={{ ml: 'auto' }}
+              disabled={draft.conditions.length === 1}
+              onClick={() => setDraft(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </Paper>
+        ))}
+        <Button
+          size="small"
+          startIcon={<Add />}
+          onClick={() => setDraft(prev => ({ ...prev, conditions: [...prev.conditions, { field: '', operator: 'equals', value: '' }] }))}
+        >
+          Add Condition
+        </Button>
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <TextField
+            label="Message"
+            size="small"
+            value={draft.message}
+            onChange={(e) => setDraft(prev => ({ ...prev, message: e.target.value }))}
+            placeholder="e.g. DueDate must be after StartDate"
+            sx={{ flexGrow: 1 }}
+          />
+          <Autocomplete
+            freeSolo
+            size="small"
+            options={fields}
+            value={draft.field ?? ''}
+            onInputChange={(_, value) => setDraft(prev => ({ ...prev, field: value || undefined }))}
+            renderInput={(params) => <TextField {...params} label="Highlight Field" placeholder={draft.conditions[0]?.field} />}
+            sx={{ minWidth: 180 }}
+          />
+          <FormControl size="small" sx={{ minWidth: 120 }}>
+            <InputLabel>Severity</InputLabel>
+            <Select
+              value={draft.severity}
+              label="Severity"
+              onChange={(e) => setDraft(prev => ({ ...prev, severity: e.target.value as 'error' | 'warning' }))}
+            >
+              <MenuItem value="error">Error</MenuItem>
+              <MenuItem value="warning">Warning</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+
+        {complete && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            With the current data this rule reports {matchingRows} of {rows.length} row{rows.length !== 1 ? 's' : ''}.
+          </Typography>
+        )}
+        {problems.length > 0 && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {problems.map((problem, index) => (
+              <div key={index}>{problem}</div>
+            ))}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained">Save Rule</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -19,7 +19,8 @@ import {
   IconButton,
   Tooltip,
   Paper,
-  ListItemIcon
+  ListItemIcon,
+  TextField
 } from '@mui/material';
 import { 
   ExpandMore, 
@@ -27,9 +28,18 @@ import {
   Warning, 
   Close,
   CheckCircle,
-  AutoFixHigh
+  AutoFixHigh,
+  FileDownload,
+  VisibilityOff,
+  Undo
 } from '@mui/icons-material';
-import { ValidationError } from '../utils/validation';
+import { saveAs } from 'file-saver';
+import { ValidationError, getRowIndex } from '../utils/validation';
+import { CustomEntityType } from '../utils/schema';
+import { CustomEntityData } from '../utils/customEntities';
+import { UserValidationRule } from '../types';
+import { SuppressedError } from '../utils/ruleCatalog';
+import { buildValidationReport, reportToCsv, reportToHtml, reportToJson } from '../utils/validationReport';
 import ErrorFixDialog from './ErrorFixDialog';
 import { useTheme } from '@mui/material/styles';
 
@@ -37,25 +47,40 @@ interface ValidationSummaryProps {
   open: boolean;
   onClose: () => void;
   errors: ValidationError[];
+  // Errors silenced with a justification, listed separately
+  suppressed?: SuppressedError[];
+  userRules?: UserValidationRule[];
   onNavigateToError?: (error: ValidationError) => void;
   onFixError?: (error: ValidationError, suggestedValue?: string) => void;
+  onSuppressError?: (error: ValidationError, justification: string) => void;
+  onRestoreError?: (suppressionId: string) => void;
   allData: {
     clients: any[];
     workers: any[];
     tasks: any[];
   };
+  customTypes?: CustomEntityType[];
+  customData?: CustomEntityData;
 }
 
 export default function ValidationSummary({ 
   open, 
   onClose, 
   errors, 
+  suppressed = [],
+  userRules = [],
   onNavigateToError,
   onFixError,
-  allData
+  onSuppressError,
+  onRestoreError,
+  allData,
+  customTypes = [],
+  customData = {}
 }: ValidationSummaryProps) {
   const [selectedError, setSelectedError] = useState<ValidationError | null>(null);
   const [showErrorFixDialog, setShowErrorFixDialog] = useState(false);
+  const [suppressingError, setSuppressingError] = useState<ValidationError | null>(null);
+  const [justification, setJustification] = useState('');
   
   const errorCount = errors.filter(e => e.severity === 'error').length;
   const warningCount = errors.filter(e => e.severity === 'warning').length;
@@ -82,10 +107,24 @@ export default function ValidationSummary({
       case 'clients': return 'Clients';
       case 'workers': return 'Workers';
       case 'tasks': return 'Tasks';
-      default: return entityType;
+      default: return customTypes.find(type => type.key === entityType)?.label ?? entityType;
     }
   };
 
+  // Download every error with its raw value and the counts per entity and rule
+  const handleExportReport = (format: 'json' | 'csv' | 'html') => {
+    const rowsByEntity: Record<string, Record<string, unknown>[]> = { ...customData, ...allData };
+    const entityLabels = Object.fromEntries(
+      [...Object.keys(groupedErrors), ...suppressed.map(({ error }) => error.entityType)]
+        .map(entityType => [entityType, getEntityDisplayName(entityType)])
+    );
+    const report = buildValidationReport(errors, rowsByEntity, entityLabels, suppressed, userRules);
+    const timestamp = new Date().toISOString().split('T')[0];
+    const content = format === 'json' ? reportToJson(report) : format === 'csv' ? reportToCsv(report) : reportToHtml(report);
+    const type = format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv;charset=utf-8' : 'text/html;charset=utf-8';
+    saveAs(new Blob([content], { type }), `validation-report-${timestamp}.${format}`);
+  };
+
   const getSeverityIcon = (severity: 'error' | 'warning') => {
     return severity === 'error' ? <Error color="error" /> : <Warning color="warning" />;
   };
@@ -96,7 +135,7 @@ export default function ValidationSummary({
 
   // Generate unique key for each error
   const getErrorKey = (error: ValidationError, index: number) => {
-    return `${error.entityType}-${error.rowId}-${error.field}-${index}`;
+    return `${error.rowKey}-${error.field}-${index}`;
   };
 
   const handleFixError = (error: ValidationError) => {
@@ -104,6 +143,37 @@ export default function ValidationSummary({
     setShowErrorFixDialog(true);
   };
 
+  const handleConfirmSuppress = () => {
+    if (suppressingError && justification.trim()) {
+      onSuppressError?.(suppressingError, justification);
+    }
+    setSuppressingError(null);
+    setJustification('');
+  };
+
+  // Row, field and rule code of an error, shown under its message
+  const describeError = (error: ValidationError) =>
+    `${error.rowId || `Row ${getRowIndex(error.rowKey) + 1}`} · ${error.field} · ${error.code}`;
+
+  const renderErrorActions = (error: ValidationError) => (
+    <Box>
+      {onSuppressError && (
+        <Tooltip title="Suppress for this row">
+          <IconButton onClick={() => setSuppressingError(error)}>
+            <VisibilityOff fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      )}
+      {onFixError && (
+        <Tooltip title="AI Fix Suggestion">
+          <IconButton edge="end" color="primary" onClick={() => handleFixError(error)}>
+            <AutoFixHigh />
+          </IconButton>
+        </Tooltip>
+      )}
+    </Box>
+  );
+
   const handleApplyFix = (error: ValidationError, suggestedValue: string) => {
     if (onFixError) {
       onFixError(error, suggestedValue);
@@ -112,6 +182,12 @@ export default function ValidationSummary({
 
   const getCurrentDataForError = (error: ValidationError) => {
     let data: any[] = [];
+    const rowIndex = getRowIndex(error.rowKey);
+
+    const customType = customTypes.find(type => type.key === error.entityType);
+    if (customType) {
+      return (customData[customType.key] ?? [])[rowIndex] || {};
+    }
     
     switch (error.entityType) {
       case 'clients':
@@ -125,15 +201,8 @@ export default function ValidationSummary({
         break;
     }
     
-    // Find the specific row data
-    const rowData = data.find(row => {
-      const idField = error.entityType === 'clients' ? 'ClientID' 
-                   : error.entityType === 'workers' ? 'WorkerID' 
-                   : 'TaskID';
-      return String(row[idField]) === error.rowId;
-    });
-    
-    return rowData || {};
+    // The row key locates the row even when its ID is blank or duplicated
+    return data[rowIndex] || {};
   };
 
   const theme = useTheme();
@@ -222,30 +291,18 @@ export default function ValidationSummary({
                       <List>
                         {entityErrorsList.map((err, idx) => (
                           <ListItem key={getErrorKey(err, idx)} sx={{ color: theme.palette.error.main, fontWeight: 500 }}
-                            secondaryAction={onFixError && (
-                              <Tooltip title="AI Fix Suggestion">
-                                <IconButton edge="end" color="primary" onClick={() => handleFixError(err)}>
-                                  <AutoFixHigh />
-                                </IconButton>
-                              </Tooltip>
-                            )}
+                            secondaryAction={renderErrorActions(err)}
                           >
                             <ListItemIcon sx={{ color: theme.palette.error.main }}><Error fontSize="small" /></ListItemIcon>
-                            <ListItemText primary={err.message} />
+                            <ListItemText primary={err.message} secondary={describeError(err)} />
                           </ListItem>
                         ))}
                         {entityWarningsList.map((warn, idx) => (
                           <ListItem key={getErrorKey(warn, idx)} sx={{ color: theme.palette.warning.main }}
-                            secondaryAction={onFixError && (
-                              <Tooltip title="AI Fix Suggestion">
-                                <IconButton edge="end" color="primary" onClick={() => handleFixError(warn)}>
-                                  <AutoFixHigh />
-                                </IconButton>
-                              </Tooltip>
-                            )}
+                            secondaryAction={renderErrorActions(warn)}
                           >
                             <ListItemIcon sx={{ color: theme.palette.warning.main }}><Warning fontSize="small" /></ListItemIcon>
-                            <ListItemText primary={warn.message} />
+                            <ListItemText primary={warn.message} secondary={describeError(warn)} />
                           </ListItem>
                         ))}
                       </List>
@@ -255,15 +312,81 @@ export default function ValidationSummary({
               })}
             </Paper>
           )}
+          {suppressed.length > 0 && (
+            <Accordion sx={{ borderRadius: 2, boxShadow: 'none', background: theme.palette.background.default }}>
+              <AccordionSummary expandIcon={<ExpandMore />}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                  <VisibilityOff color="action" fontSize="small" />
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>Suppressed</Typography>
+                  <Chip label={suppressed.length} size="small" />
+                </Box>
+              </AccordionSummary>
+              <AccordionDetails>
+                <List>
+                  {suppressed.map(({ error, suppression }) => (
+                    <ListItem key={suppression.id}
+                      secondaryAction={onRestoreError && (
+                        <Tooltip title="Restore">
+                          <IconButton edge="end" onClick={() => onRestoreError(suppression.id)}>
+                            <Undo fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    >
+                      <ListItemText
+                        primary={`${getEntityDisplayName(error.entityType)}: ${error.message}`}
+                        secondary={`${describeError(error)} — ${suppression.justification}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </AccordionDetails>
+            </Accordion>
+          )}
         </DialogContent>
 
         <DialogActions>
+          {(totalCount > 0 || suppressed.length > 0) && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mr: 'auto', ml: 1 }}>
+              <FileDownload fontSize="small" color="action" />
+              <Typography variant="body2" color="text.secondary">Export report:</Typography>
+              <Button size="small" onClick={() => handleExportReport('json')}>JSON</Button>
+              <Button size="small" onClick={() => handleExportReport('csv')}>CSV</Button>
+              <Button size="small" onClick={() => handleExportReport('html')}>HTML</Button>
+            </Box>
+          )}
           <Button onClick={onClose}>
             Close
           </Button>
         </DialogActions>
       </Dialog>
 
+      <Dialog open={!!suppressingError} onClose={() => setSuppressingError(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Suppress Issue</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {suppressingError?.message}
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            required
+            label="Justification"
+            placeholder="Why is this acceptable?"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSuppressingError(null)}>Cancel</Button>
+          <Button onClick={handleConfirmSuppress} variant="contained" disabled={!justification.trim()}>
+            Suppress
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {selectedError && (
         <ErrorFixDialog
           open={showErrorFixDialog}
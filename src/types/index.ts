@@ -1,41 +1,69 @@
-export interface Client {
-  ClientID: string;
-  Name: string;
-  Email?: string;
-  Phone?: string;
-  Address?: string;
+import type { SchemaRow } from '../utils/schema';
+
+// Entity rows are derived from the declarative schemas in utils/schema.ts
+export interface Client extends SchemaRow<'clients'> {
   [key: string]: any; // Allow additional properties
 }
 
-export interface Worker {
-  WorkerID: string;
-  Name: string;
-  Email?: string;
-  Phone?: string;
-  Position?: string;
-  Department?: string;
+export interface Worker extends SchemaRow<'workers'> {
   [key: string]: any; // Allow additional properties
 }
 
-export interface Task {
-  TaskID: string;
-  Title: string;
-  Description?: string;
-  ClientID?: string;
-  WorkerID?: string;
-  Status?: string;
-  Priority?: string;
-  DueDate?: string;
+export interface Task extends SchemaRow<'tasks'> {
   [key: string]: any; // Allow additional properties
 }
 
 export type EntityType = 'clients' | 'workers' | 'tasks';
 
+export interface EntityCandidate {
+  type: EntityType;
+  score: number;
+  confidence: number; // 0-1, share of the evidence pointing at this type
+  matchedFields: string[];
+}
+
+export interface EntityDetection {
+  candidates: EntityCandidate[]; // Ranked best first
+  ambiguous: boolean; // Low confidence or tied - needs user confirmation
+}
+
+export type FieldType = 'id' | 'string' | 'integer' | 'number' | 'number-list' | 'phase-list' | 'slot-list' | 'string-list' | 'json' | 'date';
+
+export interface CoercionFailure {
+  rowIndex: number;
+  field: string;
+  rawValue: unknown;
+  expectedType: FieldType;
+  message: string;
+}
+
+export interface HeaderRename {
+  original: string;
+  normalized: string;
+}
+
+export type TextEncoding = 'utf-8' | 'windows-1252' | 'utf-16le' | 'utf-16be';
+
+// How a delimited text file was read
+export interface CsvDialect {
+  delimiter: string;
+  encoding: TextEncoding;
+  hasBom: boolean;
+  quoteChar: string;
+  decimalSeparator: '.' | ',';
+}
+
 export interface FileData {
   type: EntityType;
   data: Client[] | Worker[] | Task[];
   fileName: string;
   columns: string[];
+  detection?: EntityDetection;
+  renamedHeaders?: HeaderRename[];
+  coercionFailures?: CoercionFailure[];
+  dialect?: CsvDialect;
+  // Notes about how the sheet was read, e.g. skipped banner rows or renamed duplicate headers
+  parseWarnings?: string[];
 }
 
 // Business Rules Types
@@ -73,6 +101,71 @@ export interface PhaseWindowRule {
 
 export type BusinessRule = CoRunRule | SlotRestrictionRule | LoadLimitRule | PhaseWindowRule;
 
+// User-authored validation rules
+export type ConditionOperator =
+  | 'equals'
+  | 'not-equals'
+  | 'greater-than'
+  | 'less-than'
+  | 'matches'
+  | 'between'
+  | 'in-list'
+  | 'empty'
+  | 'exists';
+
+export interface RuleCondition {
+  field: string;
+  operator: ConditionOperator;
+  // Literal to compare with: a regex for 'matches', [min, max] for 'between', a list for 'in-list'
+  value?: string | number | boolean | (string | number)[];
+  // Compare with another field of the same row instead of a literal (e.g. DueDate after StartDate)
+  compareField?: string;
+  negate?: boolean;
+}
+
+export interface UserValidationRule {
+  id: string;
+  name: string;
+  // A built-in entity type or the key of a custom entity type
+  entityType: string;
+  // The rule reports a row when all (or any) of its conditions hold
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+  // Field the error is attached to; defaults to the first condition's field
+  field?: string;
+  message: string;
+  severity: 'error' | 'warning';
+  enabled: boolean;
+}
+
+// Vocabulary used when matching task RequiredSkills to worker Skills
+export interface SkillTaxonomy {
+  // Names of the same skill, e.g. ['javascript', 'js']; the first is the canonical name
+  synonyms: string[][];
+  // Parent skill -> child skills it covers, e.g. frontend -> ['react', 'vue']
+  children: Record<string, string[]>;
+}
+
+// Settings for one rule of the validation catalog; unset values keep the catalog defaults
+export interface RuleOverride {
+  enabled?: boolean;
+  severity?: 'error' | 'warning';
+}
+
+// A known-acceptable issue silenced for one row and field
+export interface ValidationSuppression {
+  id: string;
+  // Code of the suppressed rule
+  code: string;
+  entityType: string;
+  // Entity ID of the row; rows without one are matched by rowKey
+  rowId: string;
+  rowKey: string;
+  field: string;
+  justification: string;
+  createdAt: string;
+}
+
 export interface PrioritizationConfig {
   priorityLevel: number;
   requestedTaskFulfillment: number;
@@ -91,4 +184,9 @@ export interface RulesConfig {
     workers: Record<string, boolean>;
     tasks: Record<string, boolean>;
   };
+  userRules: UserValidationRule[];
+  skillTaxonomy: SkillTaxonomy;
+  // Rule code -> enable/severity settings
+  ruleOverrides: Record<string, RuleOverride>;
+  suppressions: ValidationSuppression[];
 } 
\ No newline at end of file
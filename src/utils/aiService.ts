@@ -6,7 +6,7 @@ export interface AIErrorFix {
 
 export interface AIErrorFixRequest {
   error: {
-    entityType: 'clients' | 'workers' | 'tasks';
+    entityType: string;
     rowId: string;
     field: string;
     message: string;
@@ -0,0 +1,17 @@
+// Reading loosely typed cell values. Kept free of imports so any module can use it.
+
+// A cell as trimmed text; null and undefined read as ''
+export function toText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// Blank text, null, undefined or an empty list
+export function isBlank(value: unknown): boolean {
+  return toText(value) === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Items of a list cell: an array, or comma-separated text. Items are trimmed and blanks dropped.
+export function toTextList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(toText) : toText(value).split(',').map(item => item.trim());
+  return items.filter(item => item !== '');
+}
@@ -0,0 +1,271 @@
+import * as XLSX from 'xlsx';
+import { CoercionFailure, EntityType, FieldType } from '../types';
+import { ENTITY_SCHEMAS, EntitySchema, getEntitySchema } from './schema';
+import { parsePhaseList } from './phaseModel';
+
+// Declared type of each canonical field, from the entity schemas. Fields not listed are left untouched.
+export const FIELD_TYPES = Object.fromEntries(
+  (Object.keys(ENTITY_SCHEMAS) as EntityType[]).map(entityType => [
+    entityType,
+    Object.fromEntries(getEntitySchema(entityType).fields.map(field => [field.name, field.type]))
+  ])
+) as Record<EntityType, Record<string, FieldType>>;
+
+// Row property holding the original cell values of fields changed by coercion
+export const RAW_VALUES_KEY = '_raw';
+
+type CoercionResult = { value: unknown; error?: string };
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+// Accepts "1.234,5"-style text when the source file uses a decimal comma
+function toNumber(value: unknown, decimalSeparator: '.' | ',' = '.'): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+
+  const text = value.trim();
+  if (decimalSeparator === ',' && /^-?\d{1,3}(\.\d{3})*(,\d+)?$|^-?\d+(,\d+)?$/.test(text)) {
+    return Number(text.replace(/\./g, '').replace(',', '.'));
+  }
+  return Number(text);
+}
+
+// Accept JSON arrays ("[1, 2]") as well as plain comma or semicolon separated lists.
+// With a decimal comma, a list containing semicolons ("1,5; 2,5") is split on them only.
+function toList(value: unknown, decimalSeparator: '.' | ',' = '.'): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'number') return [value];
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  const separator = decimalSeparator === ',' && text.includes(';') ? ';' : /[,;]/;
+  return text.split(separator).map(item => item.trim()).filter(item => item !== '');
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function toIsoDate(value: unknown): string | null {
+  // Excel stores dates as serial day numbers
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? formatDate(parsed.y, parsed.m, parsed.d) : null;
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : formatDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) {
+    const date = new Date(Date.UTC(Number(isoMatch[1]), Number(isoMatch[2]) - 1, Number(isoMatch[3])));
+    return date.getUTCDate() === Number(isoMatch[3]) ? isoMatch.slice(1, 4).join('-') : null;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : formatDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+// Convert a single cell to the declared type. Empty cells become ''.
+// On failure the raw value is returned unchanged alongside an error message.
+export function coerceValue(value: unknown, type: FieldType, decimalSeparator: '.' | ',' = '.'): CoercionResult {
+  if (isEmpty(value)) {
+    return { value: '' };
+  }
+
+  switch (type) {
+    case 'id':
+    case 'string':
+      return { value: String(value).trim() };
+
+    case 'integer': {
+      const number = toNumber(value, decimalSeparator);
+      if (isNaN(number) || !Number.isInteger(number)) {
+        return { value, error: `Expected a whole number but got ${describe(value)}` };
+      }
+      return { value: number };
+    }
+
+    case 'number': {
+      const number = toNumber(value, decimalSeparator);
+      if (isNaN(number)) {
+        return { value, error: `Expected a number but got ${describe(value)}` };
+      }
+      return { value: number };
+    }
+
+    case 'number-list': {
+      const list = toList(value, decimalSeparator);
+      const numbers = list?.map(item => toNumber(item, decimalSeparator));
+      if (!numbers || numbers.some(isNaN)) {
+        return { value, error: `Expected a list of numbers but got ${describe(value)}` };
+      }
+      return { value: numbers };
+    }
+
+    case 'phase-list': {
+      const phases = parsePhaseList(value);
+      if (!phases) {
+        return { value, error: `Expected phases such as 1-3, [2,4] or 2,3,5 but got ${describe(value)}` };
+      }
+      return { value: phases };
+    }
+
+    // Phase numbers, or a JSON list of slot objects
+    case 'slot-list': {
+      const phases = parsePhaseList(value);
+      if (phases) {
+        return { value: phases };
+      }
+      const slots = coerceValue(value, 'json');
+      if (slots.error || !Array.isArray(slots.value)) {
+        return { value, error: `Expected phases such as 1-3 or a JSON list of slots but got ${describe(value)}` };
+      }
+      return slots;
+    }
+
+    case 'string-list': {
+      const list = toList(value);
+      if (!list || list.some(item => typeof item === 'object' && item !== null)) {
+        return { value, error: `Expected a comma-separated list but got ${describe(value)}` };
+      }
+      return { value: list.map(item => String(item).trim()).filter(item => item !== '') };
+    }
+
+    case 'json': {
+      if (typeof value === 'object') {
+        return { value };
+      }
+      try {
+        return { value: JSON.parse(String(value)) };
+      } catch {
+        return { value, error: `Expected valid JSON but got ${describe(value)}` };
+      }
+    }
+
+    case 'date': {
+      const date = toIsoDate(value);
+      if (!date) {
+        return { value, error: `Expected a date but got ${describe(value)}` };
+      }
+      return { value: date };
+    }
+  }
+}
+
+function coerceFields(
+  row: Record<string, unknown>,
+  fieldTypes: Record<string, FieldType>,
+  recordRaw: boolean,
+  decimalSeparator: '.' | ','
+): { row: Record<string, unknown>; failures: Omit<CoercionFailure, 'rowIndex'>[] } {
+  const coerced: Record<string, unknown> = { ...row };
+  const raw: Record<string, unknown> = { ...(row[RAW_VALUES_KEY] as Record<string, unknown> | undefined) };
+  const failures: Omit<CoercionFailure, 'rowIndex'>[] = [];
+
+  Object.entries(fieldTypes).forEach(([field, type]) => {
+    if (!(field in row)) return;
+
+    const result = coerceValue(row[field], type, decimalSeparator);
+    if (result.error) {
+      failures.push({ field, rawValue: row[field], expectedType: type, message: result.error });
+    }
+    if (recordRaw && result.value !== row[field] && !(field in raw)) {
+      raw[field] = row[field];
+    }
+    coerced[field] = result.value;
+  });
+
+  if (Object.keys(raw).length > 0) {
+    coerced[RAW_VALUES_KEY] = raw;
+  }
+
+  return { row: coerced, failures };
+}
+
+// Coerce every declared field of a row. Original values of changed fields are
+// kept under RAW_VALUES_KEY unless recordRaw is false (e.g. for grid edits).
+export function coerceRow(
+  row: Record<string, unknown>,
+  entityType: EntityType,
+  recordRaw = true,
+  decimalSeparator: '.' | ',' = '.'
+): { row: Record<string, unknown>; failures: Omit<CoercionFailure, 'rowIndex'>[] } {
+  return coerceFields(row, FIELD_TYPES[entityType], recordRaw, decimalSeparator);
+}
+
+// Coerce a row of a custom entity type against its own schema
+export function coerceCustomRow(
+  row: Record<string, unknown>,
+  schema: EntitySchema,
+  recordRaw = true
+): { row: Record<string, unknown>; failures: Omit<CoercionFailure, 'rowIndex'>[] } {
+  const fieldTypes = Object.fromEntries(schema.fields.map(field => [field.name, field.type]));
+  return coerceFields(row, fieldTypes, recordRaw, '.');
+}
+
+// Convert each row's canonical fields to their declared types, collecting
+// the cells that could not be converted
+export function coerceRows(
+  rows: Record<string, unknown>[],
+  entityType: EntityType,
+  decimalSeparator: '.' | ',' = '.'
+): { rows: Record<string, unknown>[]; failures: CoercionFailure[] } {
+  const failures: CoercionFailure[] = [];
+  const coerced = rows.map((row, rowIndex) => {
+    const result = coerceRow(row, entityType, true, decimalSeparator);
+    result.failures.forEach(failure => failures.push({ ...failure, rowIndex }));
+    return result.row;
+  });
+  return { rows: coerced, failures };
+}
+
+// The row as originally imported, before any coercion
+export function getRawRow(row: Record<string, unknown>): Record<string, unknown> {
+  const { [RAW_VALUES_KEY]: raw, ...values } = row;
+  return { ...values, ...(raw as Record<string, unknown> | undefined) };
+}
+
+// Render a coerced value back to cell text (lists comma-separated, JSON as text)
+export function formatCellValue(value: unknown): string | number | boolean {
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item !== 'object' || item === null)
+      ? value.join(', ')
+      : JSON.stringify(value);
+  }
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return value as string | number | boolean;
+}
+
+// Flatten rows for spreadsheet export, dropping the raw audit values
+export function toExportRows(rows: Record<string, unknown>[]): Record<string, string | number | boolean>[] {
+  return rows.map(row => {
+    const exported: Record<string, string | number | boolean> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      if (key !== RAW_VALUES_KEY) {
+        exported[key] = formatCellValue(value);
+      }
+    });
+    return exported;
+  });
+}
@@ -0,0 +1,121 @@
+import { EntityType, FileData } from '../types';
+import { coerceRows, getRawRow } from './coercion';
+import { ENTITY_SCHEMAS, getEntitySchema } from './schema';
+
+// Canonical field names for each entity, in the order they are offered for mapping
+export const CANONICAL_FIELDS = Object.fromEntries(
+  (Object.keys(ENTITY_SCHEMAS) as EntityType[]).map(entityType => [
+    entityType,
+    getEntitySchema(entityType).fields.map(field => field.name)
+  ])
+) as Record<EntityType, string[]>;
+
+// Source column header -> target field name, or null to drop the column
+export type ColumnMapping = Record<string, string | null>;
+
+export interface MappingTemplate {
+  signature: string;
+  entityType: EntityType;
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+const TEMPLATE_STORAGE_KEY = 'clean-sheet:mapping-templates';
+
+// Lowercase and strip everything but letters and digits
+export function compactHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Order-independent key identifying a set of headers
+export function getHeaderSignature(columns: string[]): string {
+  return columns.map(compactHeader).filter(Boolean).sort().join('|');
+}
+
+// Map each column to the canonical field it matches, or keep it under its own name
+export function suggestColumnMapping(columns: string[], entityType: EntityType): ColumnMapping {
+  const canonicalByCompact = new Map(CANONICAL_FIELDS[entityType].map(field => [compactHeader(field), field]));
+  const mapping: ColumnMapping = {};
+
+  columns.forEach(column => {
+    mapping[column] = canonicalByCompact.get(compactHeader(column)) ?? column;
+  });
+
+  return mapping;
+}
+
+// Target fields that more than one source column is mapped onto
+export function findDuplicateTargets(mapping: ColumnMapping): string[] {
+  const counts = new Map<string, number>();
+  Object.values(mapping).forEach(target => {
+    if (target) counts.set(target, (counts.get(target) || 0) + 1);
+  });
+  return Array.from(counts.entries()).filter(([, count]) => count > 1).map(([target]) => target);
+}
+
+// Rename or drop columns on every row according to the mapping
+export function applyColumnMapping(fileData: FileData, entityType: EntityType, mapping: ColumnMapping): FileData {
+  const columns: string[] = [];
+  fileData.columns.forEach(column => {
+    const target = mapping[column] === undefined ? column : mapping[column];
+    if (target && !columns.includes(target)) {
+      columns.push(target);
+    }
+  });
+
+  // Map from the values as imported so they are coerced for the confirmed entity type
+  const data = fileData.data.map(row => {
+    const raw = getRawRow(row);
+    const mapped: Record<string, unknown> = {};
+    fileData.columns.forEach(column => {
+      const target = mapping[column] === undefined ? column : mapping[column];
+      if (target) {
+        mapped[target] = raw[column];
+      }
+    });
+    return mapped;
+  });
+  const { rows, failures } = coerceRows(data, entityType, fileData.dialect?.decimalSeparator);
+
+  return {
+    ...fileData,
+    type: entityType,
+    data: rows as FileData['data'],
+    columns,
+    coercionFailures: failures
+  };
+}
+
+export function loadMappingTemplates(): MappingTemplate[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(TEMPLATE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function findMappingTemplate(columns: string[]): MappingTemplate | undefined {
+  const signature = getHeaderSignature(columns);
+  return loadMappingTemplates().find(template => template.signature === signature);
+}
+
+// Save (or replace) the template for this header signature
+export function saveMappingTemplate(columns: string[], entityType: EntityType, mapping: ColumnMapping): MappingTemplate {
+  const template: MappingTemplate = {
+    signature: getHeaderSignature(columns),
+    entityType,
+    mapping,
+    savedAt: new Date().toISOString()
+  };
+
+  const templates = loadMappingTemplates().filter(existing => existing.signature !== template.signature);
+  window.localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify([...templates, template]));
+  return template;
+}
+
+export function deleteMappingTemplate(signature: string): void {
+  const templates = loadMappingTemplates().filter(template => template.signature !== signature);
+  window.localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(templates));
+}
@@ -0,0 +1,167 @@
+import * as XLSX from 'xlsx';
+import { CsvDialect, TextEncoding } from '../types';
+
+export const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const ENCODING_OPTIONS: { value: TextEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+export const QUOTE_OPTIONS = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" }
+];
+
+// Lines inspected when guessing the delimiter, quote and decimal separator
+const SAMPLE_LINES = 20;
+
+const BOMS: { encoding: TextEncoding; bytes: number[] }[] = [
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] }
+];
+
+// Use the byte order mark when present, otherwise fall back to Windows-1252
+// for anything that is not valid UTF-8
+export function detectEncoding(bytes: Uint8Array): { encoding: TextEncoding; hasBom: boolean } {
+  const bom = BOMS.find(candidate => candidate.bytes.every((byte, index) => bytes[index] === byte));
+  if (bom) {
+    return { encoding: bom.encoding, hasBom: true };
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+}
+
+// Decode text in the given encoding, dropping any byte order mark
+export function decodeBytes(bytes: Uint8Array, encoding: TextEncoding): string {
+  return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+}
+
+// Split delimited text into rows of cells. Quoted cells may contain the
+// delimiter, line breaks and doubled quote characters.
+export function parseDelimitedText(text: string, delimiter: string, quoteChar: string, maxRows = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quoteChar && text[i + 1] === quoteChar) {
+        cell += quoteChar;
+        i++;
+      } else if (char === quoteChar) {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === quoteChar && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      // Handled with the following \n
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if ((cell !== '' || row.length > 0) && rows.length < maxRows) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Pick the delimiter that splits the sample lines into the most columns consistently
+function detectDelimiter(text: string, quoteChar: string, fallback: string): string {
+  let best = { delimiter: fallback, consistentLines: 0, columns: 1 };
+
+  DELIMITER_OPTIONS.forEach(({ value }) => {
+    const rows = parseDelimitedText(text, value, quoteChar, SAMPLE_LINES)
+      .filter(row => row.some(cell => cell.trim() !== ''));
+    if (rows.length === 0) return;
+
+    const counts = new Map<number, number>();
+    rows.forEach(row => counts.set(row.length, (counts.get(row.length) || 0) + 1));
+    const [columns, consistentLines] = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+
+    if (columns > 1 && (consistentLines > best.consistentLines
+      || (consistentLines === best.consistentLines && columns > best.columns))) {
+      best = { delimiter: value, consistentLines, columns };
+    }
+  });
+
+  return best.delimiter;
+}
+
+// Count quote characters that open a cell, i.e. at the start of a line or after a separator
+function detectQuoteChar(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, SAMPLE_LINES).join('\n');
+  const opening = (quote: string) => (sample.match(new RegExp(`(^|[\\n,;\\t|])${quote}`, 'g')) || []).length;
+  return opening("'") > opening('"') ? "'" : '"';
+}
+
+const DECIMAL_COMMA_PATTERN = /^-?\d{1,3}(\.\d{3})*,\d+$|^-?\d+,\d+$/;
+const DECIMAL_POINT_PATTERN = /^-?\d{1,3}(,\d{3})*\.\d+$|^-?\d+\.\d+$/;
+
+function detectDecimalSeparator(rows: string[][]): '.' | ',' {
+  let commas = 0;
+  let points = 0;
+  rows.forEach(row => row.forEach(cell => {
+    const value = cell.trim();
+    if (DECIMAL_COMMA_PATTERN.test(value)) commas++;
+    else if (DECIMAL_POINT_PATTERN.test(value)) points++;
+  }));
+  return commas > points ? ',' : '.';
+}
+
+// Work out how a delimited text file should be read
+export function detectCsvDialect(bytes: Uint8Array, fallbackDelimiter = ','): CsvDialect {
+  const { encoding, hasBom } = detectEncoding(bytes);
+  const text = decodeBytes(bytes, encoding);
+  const quoteChar = detectQuoteChar(text);
+  const delimiter = detectDelimiter(text, quoteChar, fallbackDelimiter);
+  // A comma can only be the decimal separator when it isn't the delimiter
+  const decimalSeparator = delimiter === ','
+    ? '.'
+    : detectDecimalSeparator(parseDelimitedText(text, delimiter, quoteChar, SAMPLE_LINES).slice(1));
+
+  return { delimiter, encoding, hasBom, quoteChar, decimalSeparator };
+}
+
+// Build a worksheet from delimited text read with the given dialect. Cells are
+// kept as text; field coercion interprets numbers using the decimal separator.
+export function delimitedTextToSheet(bytes: Uint8Array, dialect: CsvDialect): XLSX.WorkSheet {
+  const text = decodeBytes(bytes, dialect.encoding);
+  return XLSX.utils.aoa_to_sheet(parseDelimitedText(text, dialect.delimiter, dialect.quoteChar));
+}
+
+export function describeDelimiter(delimiter: string): string {
+  return DELIMITER_OPTIONS.find(option => option.value === delimiter)?.label ?? `"${delimiter}"`;
+}
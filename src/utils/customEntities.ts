@@ -0,0 +1,59 @@
+import * as XLSX from 'xlsx';
+import { CoercionFailure } from '../types';
+import { coerceCustomRow } from './coercion';
+import { compactHeader } from './columnMapping';
+import { readWorkbook } from './fileFormat';
+import { HEADER_SCAN_ROWS, detectHeaderLayout, getSheetDataWidth } from './headerDetection';
+import { CustomEntityType } from './schema';
+
+// Rows of each custom entity type, keyed by entity key
+export type CustomEntityData = Record<string, Record<string, unknown>[]>;
+
+export interface CustomEntityImport {
+  rows: Record<string, unknown>[];
+  failures: CoercionFailure[];
+  warnings: string[];
+}
+
+// Read the first sheet of a file as rows of a custom entity type. Headers
+// matching a schema field (ignoring case and punctuation) take the field name.
+export function importCustomEntityFile(buffer: ArrayBuffer, fileName: string, type: CustomEntityType): CustomEntityImport {
+  const { workbook } = readWorkbook(buffer, fileName);
+  const worksheet = workbook.SheetNames.map(name => workbook.Sheets[name]).find(sheet => sheet['!ref']);
+  if (!worksheet) {
+    throw new Error('No valid data found in the file');
+  }
+
+  const fieldsByCompact = new Map(type.fields.map(field => [compactHeader(field.name), field.name]));
+  const allRows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true, defval: '' });
+  const layout = detectHeaderLayout(
+    allRows.slice(0, HEADER_SCAN_ROWS),
+    [],
+    new Set(fieldsByCompact.keys()),
+    getSheetDataWidth(worksheet, XLSX.utils.decode_range(worksheet['!ref']!))
+  );
+  const headers = layout.headers.map(header => fieldsByCompact.get(compactHeader(header)) ?? header);
+  const warnings = [...layout.warnings];
+
+  const missing = type.fields.filter(field => field.required && !headers.includes(field.name));
+  if (missing.length > 0) {
+    warnings.push(`Missing columns for required fields: ${missing.map(field => field.name).join(', ')}`);
+  }
+
+  const failures: CoercionFailure[] = [];
+  const rows = allRows
+    .slice(layout.headerRow + layout.headerRowCount)
+    .filter(row => row.some(value => value !== ''))
+    .map((values, rowIndex) => {
+      const row = Object.fromEntries(headers.map((header, col) => [header, values[col] ?? '']));
+      const result = coerceCustomRow(row, type);
+      result.failures.forEach(failure => failures.push({ ...failure, rowIndex }));
+      return result.row;
+    });
+
+  if (rows.length === 0) {
+    throw new Error('No valid data found in the file');
+  }
+
+  return { rows, failures, warnings };
+}
@@ -0,0 +1,147 @@
+import { EntityType } from '../types';
+import { RAW_VALUES_KEY, formatCellValue } from './coercion';
+import { isBlank } from './cellValues';
+import { getIdField } from './schema';
+
+export type MergeMode = 'replace' | 'append' | 'upsert';
+
+export const ID_FIELDS = {
+  clients: getIdField('clients'),
+  workers: getIdField('workers'),
+  tasks: getIdField('tasks')
+} satisfies Record<EntityType, string>;
+
+export interface MergeSource {
+  // Shown in the conflict picker
+  label: string;
+  rows: Record<string, unknown>[];
+}
+
+export interface MergeVersion {
+  source: string;
+  row: Record<string, unknown>;
+}
+
+// Rows from different sources sharing an ID but disagreeing on some fields
+export interface MergeConflict {
+  id: string;
+  versions: MergeVersion[];
+  differingFields: string[];
+}
+
+// Conflict ID -> index of the version that wins
+export type ConflictResolutions = Record<string, number>;
+
+export interface MergeResult {
+  rows: Record<string, unknown>[];
+  conflicts: MergeConflict[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return isBlank(a) ? isBlank(b) : !isBlank(b) && formatCellValue(a) === formatCellValue(b);
+}
+
+// Fields where at least two of the versions having the column disagree. A column
+// missing from a sheet is no conflict, but a value cleared in one version differs
+// from a filled one.
+function findDifferingFields(versions: MergeVersion[]): string[] {
+  const fields = new Set<string>();
+  versions.forEach(version => Object.keys(version.row).forEach(field => fields.add(field)));
+  fields.delete(RAW_VALUES_KEY);
+
+  return Array.from(fields).filter(field => {
+    const values = versions.filter(version => field in version.row).map(version => version.row[field]);
+    return values.some(value => !sameValue(value, values[0]));
+  });
+}
+
+// The winning version's columns laid over the other versions, so a sheet holding only
+// some of the columns leaves the others as they were. Each field keeps its raw value.
+function overlayVersions(versions: MergeVersion[], winnerIndex: number): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  const raw: Record<string, unknown> = {};
+  [...versions.filter((_, index) => index !== winnerIndex), versions[winnerIndex]].forEach(version => {
+    const versionRaw = version.row[RAW_VALUES_KEY] as Record<string, unknown> | undefined;
+    Object.entries(version.row).forEach(([field, value]) => {
+      if (field === RAW_VALUES_KEY) return;
+      row[field] = value;
+      if (versionRaw && field in versionRaw) raw[field] = versionRaw[field];
+      else delete raw[field];
+    });
+  });
+  if (Object.keys(raw).length > 0) {
+    row[RAW_VALUES_KEY] = raw;
+  }
+  return row;
+}
+
+// The versions of one ID and the source each came from
+interface MergeEntry {
+  id: string;
+  versions: MergeVersion[];
+  sources: MergeSource[];
+}
+
+// Merge rows sharing an ID across sources. Duplicate IDs within a single source
+// are kept as separate rows so validation still reports them. Sources are told
+// apart by upload rather than by label, since two files may share a name.
+function upsertRows(sources: MergeSource[], idField: string, resolutions: ConflictResolutions): MergeResult {
+  const entries: MergeEntry[] = [];
+  const entryById = new Map<string, MergeEntry>();
+
+  sources.forEach(source => {
+    source.rows.forEach(row => {
+      const id = String(row[idField] ?? '').trim();
+      const existing = id ? entryById.get(id) : undefined;
+
+      if (existing && !existing.sources.includes(source)) {
+        existing.versions.push({ source: source.label, row });
+        existing.sources.push(source);
+        return;
+      }
+
+      const entry = { id, versions: [{ source: source.label, row }], sources: [source] };
+      entries.push(entry);
+      if (id && !existing) {
+        entryById.set(id, entry);
+      }
+    });
+  });
+
+  const conflicts: MergeConflict[] = [];
+  const rows = entries.map(entry => {
+    if (entry.versions.length === 1) {
+      return entry.versions[0].row;
+    }
+
+    const differingFields = findDifferingFields(entry.versions);
+    if (differingFields.length > 0) {
+      conflicts.push({ id: entry.id, versions: entry.versions, differingFields });
+    }
+    // Later sources win unless the user picked another version
+    return overlayVersions(entry.versions, resolutions[entry.id] ?? entry.versions.length - 1);
+  });
+
+  return { rows, conflicts };
+}
+
+// Combine existing rows of an entity with incoming sheets according to the merge mode:
+// - replace: existing rows are dropped; incoming sheets are merged with each other by ID
+// - append: every row is kept
+// - upsert: existing and incoming rows are merged by ID
+export function mergeEntityRows(
+  existing: Record<string, unknown>[],
+  incoming: MergeSource[],
+  mode: MergeMode,
+  entityType: EntityType,
+  resolutions: ConflictResolutions = {}
+): MergeResult {
+  switch (mode) {
+    case 'append':
+      return { rows: [...existing, ...incoming.flatMap(source => source.rows)], conflicts: [] };
+    case 'replace':
+      return upsertRows(incoming, ID_FIELDS[entityType], resolutions);
+    case 'upsert':
+      return upsertRows([{ label: 'Current data', rows: existing }, ...incoming], ID_FIELDS[entityType], resolutions);
+  }
+}
@@ -50,10 +50,10 @@ export function analyzeDataQuality(clients: Client[], workers: Worker[], tasks:
   }
 
   // 2. Missing Critical Data Analysis
-  const missingEmailClients = clients.filter(c => !c.Email || c.Email.trim() === '').length;
-  const missingPhoneClients = clients.filter(c => !c.Phone || c.Phone.trim() === '').length;
-  const missingSkillsWorkers = workers.filter(w => !w.Skills || w.Skills.trim() === '').length;
-  const missingDueDateTasks = tasks.filter(t => !t.DueDate || t.DueDate.trim() === '').length;
+  const missingEmailClients = clients.filter(c => !c.Email || String(c.Email).trim() === '').length;
+  const missingPhoneClients = clients.filter(c => !c.Phone || String(c.Phone).trim() === '').length;
+  const missingSkillsWorkers = workers.filter(w => !w.Skills || String(w.Skills).trim() === '').length;
+  const missingDueDateTasks = tasks.filter(t => !t.DueDate || String(t.DueDate).trim() === '').length;
 
   if (missingEmailClients > 0) {
     insights.push({
@@ -138,7 +138,7 @@ export function analyzeDataQuality(clients: Client[], workers: Worker[], tasks:
   }
 
   // 4. Due Date Analysis
-  const tasksWithDueDates = tasks.filter(t => t.DueDate && t.DueDate.trim() !== '');
+  const tasksWithDueDates = tasks.filter(t => t.DueDate && String(t.DueDate).trim() !== '');
   const overdueTasks = tasksWithDueDates.filter(t => {
     const dueDate = new Date(t.DueDate);
     const today = new Date();
@@ -0,0 +1,163 @@
+import { Task } from '../types';
+import { toText, toTextList } from './cellValues';
+
+// Task dependency graph keyed by TaskID. Rows sharing a TaskID are merged into one node.
+export interface DependencyGraph {
+  // Known dependencies of each task, without self-references or unknown targets
+  dependencies: Map<string, string[]>;
+  // Row indexes of the tasks carrying each ID
+  rowsById: Map<string, number[]>;
+}
+
+// Dependencies as listed in the cell, in order and without duplicates
+export function parseDependencies(value: unknown): string[] {
+  return [...new Set(toTextList(value))];
+}
+
+export function buildDependencyGraph(tasks: Task[]): DependencyGraph {
+  const rowsById = new Map<string, number[]>();
+  tasks.forEach((task, index) => {
+    const taskId = toText(task.TaskID);
+    if (!taskId) return;
+    if (!rowsById.has(taskId)) {
+      rowsById.set(taskId, []);
+    }
+    rowsById.get(taskId)!.push(index);
+  });
+
+  const dependencies = new Map<string, string[]>();
+  rowsById.forEach((indexes, taskId) => {
+    const targets = new Set<string>();
+    indexes.forEach(index => {
+      parseDependencies(tasks[index].Dependencies)
+        .filter(target => target !== taskId && rowsById.has(target))
+        .forEach(target => targets.add(target));
+    });
+    dependencies.set(taskId, [...targets]);
+  });
+
+  return { dependencies, rowsById };
+}
+
+// Groups of tasks that depend on each other (strongly connected components of more than one task).
+// Tarjan's algorithm with an explicit stack of visits, so long dependency chains cannot
+// overflow the call stack.
+function findDependencyGroups(graph: DependencyGraph): string[][] {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+  // Tasks being visited, each with the position of its next dependency to follow
+  const visits: { node: string; next: number }[] = [];
+
+  const enter = (node: string) => {
+    indexOf.set(node, indexOf.size);
+    lowLink.set(node, indexOf.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+    visits.push({ node, next: 0 });
+  };
+
+  graph.dependencies.forEach((_, root) => {
+    if (indexOf.has(root)) return;
+    enter(root);
+    while (visits.length > 0) {
+      const visit = visits[visits.length - 1];
+      const targets = graph.dependencies.get(visit.node) ?? [];
+      if (visit.next < targets.length) {
+        const target = targets[visit.next++];
+        if (!indexOf.has(target)) {
+          enter(target);
+        } else if (onStack.has(target)) {
+          lowLink.set(visit.node, Math.min(lowLink.get(visit.node)!, indexOf.get(target)!));
+        }
+        continue;
+      }
+
+      visits.pop();
+      const { node } = visit;
+      if (lowLink.get(node) === indexOf.get(node)) {
+        const group: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          group.push(member);
+        } while (member !== node);
+        if (group.length > 1) groups.push(group);
+      }
+      if (visits.length > 0) {
+        const parent = visits[visits.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(node)!));
+      }
+    }
+  });
+  return groups;
+}
+
+// A shortest path through the group from its first task back to itself, found
+// breadth-first within the group
+function traceCycle(graph: DependencyGraph, group: string[]): string[] {
+  const members = new Set(group);
+  const start = [...group].sort()[0];
+  // Task -> the task it was reached from
+  const reachedFrom = new Map<string, string>();
+  const queue = [start];
+
+  for (let position = 0; position < queue.length; position++) {
+    const node = queue[position];
+    for (const target of graph.dependencies.get(node) ?? []) {
+      if (target === start) {
+        const path = [node];
+        while (path[path.length - 1] !== start) path.push(reachedFrom.get(path[path.length - 1])!);
+        return [...path.reverse(), start];
+      }
+      if (members.has(target) && !reachedFrom.has(target)) {
+        reachedFrom.set(target, node);
+        queue.push(target);
+      }
+    }
+  }
+  return [...group, group[0]];
+}
+
+// One cycle per group of mutually dependent tasks, e.g. ['T1', 'T2', 'T1'].
+// Tasks in several overlapping cycles are reported once, within a single group.
+export function findDependencyCycles(graph: DependencyGraph): { cycle: string[]; members: string[] }[] {
+  return findDependencyGroups(graph).map(group => ({
+    cycle: traceCycle(graph, group),
+    members: [...group].sort()
+  }));
+}
+
+// Task IDs ordered so every task follows its dependencies, keeping row order
+// where dependencies allow. Tasks in or behind a cycle cannot be ordered.
+export function getTopologicalOrder(graph: DependencyGraph): { order: string[]; blocked: string[] } {
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+  graph.dependencies.forEach((targets, taskId) => {
+    remaining.set(taskId, targets.length);
+    targets.forEach(target => {
+      if (!dependents.has(target)) {
+        dependents.set(target, []);
+      }
+      dependents.get(target)!.push(taskId);
+    });
+  });
+
+  const order: string[] = [];
+  const ready = [...remaining.keys()].filter(taskId => remaining.get(taskId) === 0);
+  while (ready.length > 0) {
+    const taskId = ready.shift()!;
+    order.push(taskId);
+    (dependents.get(taskId) ?? []).forEach(dependent => {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) ready.push(dependent);
+    });
+  }
+
+  const ordered = new Set(order);
+  return { order, blocked: [...graph.dependencies.keys()].filter(taskId => !ordered.has(taskId)) };
+}
@@ -0,0 +1,207 @@
+import * as XLSX from 'xlsx';
+import { CsvDialect } from '../types';
+import { decodeBytes, delimitedTextToSheet, detectCsvDialect, detectEncoding } from './csvDialect';
+
+export type FileFormat = 'xlsx' | 'xls' | 'ods' | 'csv' | 'tsv' | 'json' | 'ndjson' | 'html';
+
+// Extensions offered in the file picker, per format
+export const FORMAT_EXTENSIONS: Record<FileFormat, string[]> = {
+  xlsx: ['.xlsx', '.xlsm'],
+  xls: ['.xls'],
+  ods: ['.ods'],
+  csv: ['.csv'],
+  tsv: ['.tsv', '.tab'],
+  json: ['.json'],
+  ndjson: ['.ndjson', '.jsonl'],
+  html: ['.html', '.htm']
+};
+
+export const SUPPORTED_EXTENSIONS = Object.values(FORMAT_EXTENSIONS).flat();
+
+// ZIP local file header (xlsx and ods are both zip containers)
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+// OLE2 compound document (legacy .xls)
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+// ODF usually stores its mimetype uncompressed as the first zip entry
+const ODS_MIMETYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+// Entry names are stored uncompressed in the zip central directory at the end of the file
+const ZIP_DIRECTORY_SCAN_BYTES = 65536;
+
+function startsWith(bytes: Uint8Array, magic: number[]): boolean {
+  return magic.every((byte, index) => bytes[index] === byte);
+}
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+function formatFromExtension(fileName: string): FileFormat | null {
+  const extension = getExtension(fileName);
+  const match = (Object.keys(FORMAT_EXTENSIONS) as FileFormat[])
+    .find(format => FORMAT_EXTENSIONS[format].includes(extension));
+  return match ?? null;
+}
+
+// Text files may not contain NUL bytes (outside UTF-16); binary formats almost always do
+function looksLikeText(bytes: Uint8Array): boolean {
+  if (detectEncoding(bytes.subarray(0, 4)).encoding.startsWith('utf-16')) {
+    return true;
+  }
+  return !bytes.subarray(0, 4096).includes(0);
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return decodeBytes(bytes, detectEncoding(bytes).encoding);
+}
+
+function canParseJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A JSON document (array of records or a single record, pretty-printed or not), else
+// one JSON record per line, else null
+function detectJsonFormat(text: string): 'json' | 'ndjson' | null {
+  if (canParseJson(text)) {
+    return 'json';
+  }
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+  return lines.length > 0 && lines.every(canParseJson) ? 'ndjson' : null;
+}
+
+// Identify the format from the file contents, using the extension only to
+// break ties between formats the contents can't tell apart.
+// Returns null for content that is not a supported spreadsheet or data file.
+export function detectFileFormat(buffer: ArrayBuffer, fileName: string): FileFormat | null {
+  const bytes = new Uint8Array(buffer);
+  const byExtension = formatFromExtension(fileName);
+
+  if (startsWith(bytes, ZIP_MAGIC)) {
+    const decoder = new TextDecoder('latin1');
+    const head = decoder.decode(bytes.subarray(0, 128));
+    const directory = decoder.decode(bytes.subarray(Math.max(0, bytes.length - ZIP_DIRECTORY_SCAN_BYTES)));
+    const isOds = head.includes(ODS_MIMETYPE)
+      || (directory.includes('content.xml') && !directory.includes('[Content_Types].xml'));
+    return isOds ? 'ods' : 'xlsx';
+  }
+  if (startsWith(bytes, OLE_MAGIC)) {
+    return 'xls';
+  }
+  if (!looksLikeText(bytes)) {
+    return null;
+  }
+
+  const fullText = decodeText(bytes);
+  const text = fullText.slice(0, 4096).trimStart();
+  // HTML tables, e.g. a range copied from a spreadsheet
+  if (text.startsWith('<')) {
+    return /<table[\s>]/i.test(fullText) ? 'html' : null;
+  }
+  // Text starting like JSON may still be delimited, e.g. a pasted range whose first cell starts with "["
+  if (text.startsWith('[') || text.startsWith('{')) {
+    const jsonFormat = detectJsonFormat(fullText);
+    if (jsonFormat) {
+      return jsonFormat;
+    }
+    // Named as JSON but unreadable: let the JSON parser report where it fails
+    if (byExtension === 'json' || byExtension === 'ndjson') {
+      return byExtension;
+    }
+  }
+  if (byExtension === 'csv' || byExtension === 'tsv') {
+    return byExtension;
+  }
+
+  // Unknown text extension: pick the delimiter that dominates the first line
+  const firstLine = text.split(/\r?\n/)[0];
+  const tabs = firstLine.split('\t').length;
+  const commas = firstLine.split(',').length;
+  return tabs > commas ? 'tsv' : 'csv';
+}
+
+// Keep nested values as JSON text so coercion can parse them back per field
+function flattenRecord(record: unknown, index: number): Record<string, unknown> {
+  if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error(`Expected an object at record ${index + 1}, got ${JSON.stringify(record)}`);
+  }
+  const flat: Record<string, unknown> = {};
+  Object.entries(record as Record<string, unknown>).forEach(([key, value]) => {
+    flat[key] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+  });
+  return flat;
+}
+
+function parseJsonRecords(text: string, format: 'json' | 'ndjson'): Record<string, unknown>[] {
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    // A single record is read as a one-row sheet
+    return (Array.isArray(parsed) ? parsed : [parsed]).map(flattenRecord);
+  }
+
+  return text
+    .split(/\r?\n/)
+    .map((line, lineIndex) => ({ line: line.trim(), lineIndex }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, lineIndex }) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${lineIndex + 1}`);
+      }
+      return flattenRecord(parsed, lineIndex);
+    });
+}
+
+function singleSheetWorkbook(worksheet: XLSX.WorkSheet): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
+  return workbook;
+}
+
+// Load any supported format into a SheetJS workbook so every format shares
+// the same sheet-by-sheet parsing pipeline. Delimited text is read with the
+// detected dialect, with any fields of dialectOverride taking precedence.
+export function readWorkbook(
+  buffer: ArrayBuffer,
+  fileName: string,
+  dialectOverride: Partial<CsvDialect> = {}
+): { workbook: XLSX.WorkBook; dialect?: CsvDialect } {
+  const format = detectFileFormat(buffer, fileName);
+  const bytes = new Uint8Array(buffer);
+
+  switch (format) {
+    case 'xlsx':
+    case 'xls':
+    case 'ods':
+      return { workbook: XLSX.read(bytes, { type: 'array' }) };
+
+    case 'csv':
+    case 'tsv': {
+      const dialect = { ...detectCsvDialect(bytes, format === 'tsv' ? '\t' : ','), ...dialectOverride };
+      return { workbook: singleSheetWorkbook(delimitedTextToSheet(bytes, dialect)), dialect };
+    }
+
+    case 'html':
+      return { workbook: XLSX.read(decodeText(bytes), { type: 'string' }) };
+
+    case 'json':
+    case 'ndjson': {
+      const records = parseJsonRecords(decodeText(bytes), format);
+      return { workbook: singleSheetWorkbook(XLSX.utils.json_to_sheet(records)) };
+    }
+
+    default:
+      throw new Error(`Unsupported file format: ${fileName}. Please upload ${SUPPORTED_EXTENSIONS.join(', ')} files.`);
+  }
+}
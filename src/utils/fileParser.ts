@@ -1,108 +1,390 @@
 import * as XLSX from 'xlsx';
-import { Client, Worker, Task, EntityType, FileData } from '../types';
+import { CsvDialect, EntityType, EntityCandidate, EntityDetection, FileData, HeaderRename } from '../types';
+import { coerceRows } from './coercion';
+import { CANONICAL_FIELDS, compactHeader } from './columnMapping';
+import { DEFAULT_HEADER_ALIASES, HeaderAliasDictionary } from './headerAliases';
+import { readWorkbook } from './fileFormat';
+import { HEADER_SCAN_ROWS, detectHeaderLayout, getSheetDataWidth } from './headerDetection';
 
-export function detectEntityType(columns: string[]): EntityType {
-  const columnSet = new Set(columns.map(col => col.toLowerCase()));
-  
-  if (columnSet.has('clientid') || columnSet.has('client_id')) {
-    return 'clients';
-  }
-  
-  if (columnSet.has('workerid') || columnSet.has('worker_id') || columnSet.has('employeeid')) {
-    return 'workers';
-  }
-  
-  if (columnSet.has('taskid') || columnSet.has('task_id')) {
-    return 'tasks';
+// Number of sheet rows converted per chunk before progress is reported
+export const DEFAULT_CHUNK_SIZE = 5000;
+
+export interface ParseProgress {
+  fileName: string;
+  sheetName: string;
+  sheetIndex: number;
+  sheetCount: number;
+  processedRows: number;
+  totalRows: number;
+}
+
+export interface ParseOptions {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+  chunkSize?: number;
+  aliases?: HeaderAliasDictionary;
+  // Overrides for the detected dialect of CSV and TSV files
+  dialect?: Partial<CsvDialect>;
+  // Entity chosen by the user up front, used instead of the detected one
+  entityType?: EntityType;
+}
+
+// Messages exchanged with fileParser.worker.ts
+export type ParseWorkerRequest = {
+  type: 'parse';
+  buffer: ArrayBuffer;
+  fileName: string;
+  chunkSize: number;
+  aliases: HeaderAliasDictionary;
+  dialect?: Partial<CsvDialect>;
+  entityType?: EntityType;
+};
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'result'; results: FileData[] }
+  | { type: 'error'; message: string };
+
+// Evidence for each entity type: compacted header -> weight.
+// An entity's own ID column is the strongest signal; shared fields like Name score low.
+const ENTITY_SIGNATURES: Record<EntityType, Record<string, number>> = {
+  clients: {
+    clientid: 5,
+    requestedtaskids: 3,
+    grouptag: 2,
+    attributesjson: 2,
+    prioritylevel: 1,
+    address: 1,
+    name: 0.5,
+    email: 0.5,
+    phone: 0.5
+  },
+  workers: {
+    workerid: 5,
+    employeeid: 5,
+    availableslots: 3,
+    maxloadperphase: 3,
+    skills: 2,
+    workergroup: 2,
+    qualificationlevel: 2,
+    position: 1,
+    department: 1,
+    name: 0.5,
+    email: 0.5,
+    phone: 0.5
+  },
+  tasks: {
+    taskid: 5,
+    duration: 3,
+    requiredskills: 3,
+    preferredphases: 3,
+    maxconcurrent: 3,
+    dependencies: 2,
+    title: 1,
+    category: 1,
+    duedate: 1,
+    status: 1,
+    priority: 1,
+    description: 1,
+    clientid: 1,
+    workerid: 1
   }
-  
-  // Fallback detection based on common column patterns
-  if (columnSet.has('name') && (columnSet.has('email') || columnSet.has('phone'))) {
-    if (columnSet.has('position') || columnSet.has('department')) {
-      return 'workers';
+};
+
+// Own-ID columns of each entity. Another entity's sheet may carry them as references
+// (e.g. ClientID on tasks), so they only get their full weight when no present
+// own-ID column belongs to an entity referencing them.
+const ENTITY_ID_FIELDS: Record<EntityType, string[]> = {
+  clients: ['clientid'],
+  workers: ['workerid', 'employeeid'],
+  tasks: ['taskid']
+};
+
+// Weight of an ID column read as a reference to another entity
+const FOREIGN_ID_WEIGHT = 1;
+
+// Below this confidence, or when the top two candidates tie, ask the user
+export const ENTITY_CONFIDENCE_THRESHOLD = 0.6;
+
+// Score needed before a sheet can be detected with full confidence
+const CONFIDENT_SCORE = 5;
+
+// Rename header variants onto the canonical field names of an entity.
+// Matching ignores case, spaces, underscores and punctuation, then falls back to
+// the alias dictionary. Headers that match nothing are kept as-is.
+export function normalizeHeaders(
+  headers: string[],
+  entityType: EntityType,
+  aliases: HeaderAliasDictionary = DEFAULT_HEADER_ALIASES
+): { headers: string[]; renamed: HeaderRename[] } {
+  const canonicalByCompact = new Map<string, string>();
+  CANONICAL_FIELDS[entityType].forEach(field => canonicalByCompact.set(compactHeader(field), field));
+  Object.entries(aliases[entityType] || {}).forEach(([field, fieldAliases]) => {
+    fieldAliases.forEach(alias => {
+      const key = compactHeader(alias);
+      if (key && !canonicalByCompact.has(key)) {
+        canonicalByCompact.set(key, field);
+      }
+    });
+  });
+
+  // Headers already spelled canonically keep their name and win over variants
+  const used = new Set(headers.filter(header => CANONICAL_FIELDS[entityType].includes(header)));
+  const renamed: HeaderRename[] = [];
+  const normalized = headers.map(header => {
+    if (used.has(header)) {
+      return header;
+    }
+    const canonical = canonicalByCompact.get(compactHeader(header));
+    // Leave the header alone if it is unknown or its canonical name is already taken
+    if (!canonical || used.has(canonical)) {
+      return header;
+    }
+    used.add(canonical);
+    if (canonical !== header) {
+      renamed.push({ original: header, normalized: canonical });
+    }
+    return canonical;
+  });
+
+  return { headers: normalized, renamed };
+}
+
+// Rate the columns against every entity signature and rank the candidates
+export function scoreEntityTypes(columns: string[], aliases: HeaderAliasDictionary = DEFAULT_HEADER_ALIASES): EntityDetection {
+  const types = Object.keys(ENTITY_SIGNATURES) as EntityType[];
+  // Score each entity against the headers as they would be named for it
+  const compactedByType = new Map(types.map(type => [type, new Map(
+    normalizeHeaders(columns, type, aliases).headers.map((header, index) => [compactHeader(header), columns[index]])
+  )]));
+  const ownIdTypes = types.filter(type => ENTITY_ID_FIELDS[type].some(field => compactedByType.get(type)!.has(field)));
+  const isReference = (type: EntityType, field: string) => ownIdTypes.some(other =>
+    other !== type && CANONICAL_FIELDS[other].some(name => compactHeader(name) === field)
+  );
+
+  const scored = types.map(type => {
+    const compacted = compactedByType.get(type)!;
+    let score = 0;
+    const matchedFields: string[] = [];
+    Object.entries(ENTITY_SIGNATURES[type]).forEach(([field, weight]) => {
+      const column = compacted.get(field);
+      if (column !== undefined) {
+        score += ENTITY_ID_FIELDS[type].includes(field) && isReference(type, field) ? FOREIGN_ID_WEIGHT : weight;
+        matchedFields.push(column);
+      }
+    });
+    return { type, score, matchedFields };
+  });
+
+  const totalScore = scored.reduce((sum, candidate) => sum + candidate.score, 0);
+  const candidates: EntityCandidate[] = scored
+    .map(candidate => ({
+      ...candidate,
+      // Share of the total evidence, damped when there is little evidence at all
+      confidence: totalScore > 0
+        ? (candidate.score / totalScore) * Math.min(1, candidate.score / CONFIDENT_SCORE)
+        : 0
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  const ambiguous = best.score === 0
+    || best.score === runnerUp.score
+    || best.confidence < ENTITY_CONFIDENCE_THRESHOLD;
+
+  return { candidates, ambiguous };
+}
+
+export function detectEntityType(columns: string[]): EntityType {
+  return scoreEntityTypes(columns).candidates[0].type;
+}
+
+// Compacted canonical field names and aliases of every entity
+function getKnownHeaders(aliases: HeaderAliasDictionary): Set<string> {
+  const known = new Set<string>();
+  (Object.keys(CANONICAL_FIELDS) as EntityType[]).forEach(type => {
+    CANONICAL_FIELDS[type].forEach(field => known.add(compactHeader(field)));
+    Object.values(aliases[type] || {}).flat().forEach(alias => known.add(compactHeader(alias)));
+  });
+  return known;
+}
+
+function createCancelledError(): Error {
+  return new Error('File parsing was cancelled');
+}
+
+// Give the event loop a chance to deliver progress messages and cancellation
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// Convert raw sheet rows into objects keyed by header, keeping cell values as read
+function rowsToObjects(headers: string[], rows: unknown[][]): Record<string, unknown>[] {
+  return rows.map(row => {
+    const obj: Record<string, unknown> = {};
+    headers.forEach((header, colIndex) => {
+      const value = row[colIndex];
+      obj[header] = value === null || value === undefined ? '' : value;
+    });
+    return obj;
+  }).filter(obj => {
+    // Filter out completely empty rows
+    return Object.values(obj).some(value => value !== '');
+  });
+}
+
+// Parse any supported file buffer sheet by sheet, converting rows in chunks so
+// progress can be reported and cancellation honoured between chunks.
+export async function parseWorkbook(buffer: ArrayBuffer, fileName: string, options: ParseOptions = {}): Promise<FileData[]> {
+  const { onProgress, signal, chunkSize = DEFAULT_CHUNK_SIZE, aliases = DEFAULT_HEADER_ALIASES, dialect: dialectOverride, entityType } = options;
+  const { workbook, dialect } = readWorkbook(buffer, fileName, dialectOverride);
+  const knownHeaders = getKnownHeaders(aliases);
+  const results: FileData[] = [];
+  const sheetCount = workbook.SheetNames.length;
+
+  for (let sheetIndex = 0; sheetIndex < sheetCount; sheetIndex++) {
+    if (signal?.aborted) throw createCancelledError();
+
+    const sheetName = workbook.SheetNames[sheetIndex];
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet['!ref']) {
+      continue; // Skip empty sheets
+    }
+
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    // Locate the header within the top rows, keeping blank rows so indices line up
+    const topRows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+      header: 1,
+      blankrows: true,
+      defval: '',
+      range: { s: { r: range.s.r, c: range.s.c }, e: { r: Math.min(range.s.r + HEADER_SCAN_ROWS - 1, range.e.r), c: range.e.c } }
+    });
+    const merges = (worksheet['!merges'] || []).map(merge => ({
+      s: { r: merge.s.r - range.s.r, c: merge.s.c - range.s.c },
+      e: { r: merge.e.r - range.s.r, c: merge.e.c - range.s.c }
+    }));
+    const layout = detectHeaderLayout(topRows, merges, knownHeaders, getSheetDataWidth(worksheet, range));
+    const dataStart = range.s.r + layout.headerRow + layout.headerRowCount;
+    const totalRows = Math.max(0, range.e.r - dataStart + 1);
+    const rawHeaders = layout.headers;
+    const scored = scoreEntityTypes(rawHeaders, aliases);
+    // A type chosen by the user needs no confirmation, whatever the headers suggest
+    const detection = entityType ? { ...scored, ambiguous: false } : scored;
+    const type = entityType ?? detection.candidates[0].type;
+    const { headers, renamed } = normalizeHeaders(rawHeaders, type, aliases);
+    const objects: Record<string, unknown>[] = [];
+
+    for (let start = dataStart; start <= range.e.r; start += chunkSize) {
+      if (signal?.aborted) throw createCancelledError();
+
+      const end = Math.min(start + chunkSize - 1, range.e.r);
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+        header: 1,
+        range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } }
+      });
+      objects.push(...rowsToObjects(headers, rows));
+
+      onProgress?.({
+        fileName,
+        sheetName,
+        sheetIndex,
+        sheetCount,
+        processedRows: end - dataStart + 1,
+        totalRows
+      });
+      await yieldToEventLoop();
     }
-    return 'clients';
+
+    if (objects.length === 0) {
+      continue; // Skip sheets with no valid data
+    }
+
+    const { rows, failures } = coerceRows(objects, type, dialect?.decimalSeparator);
+    results.push({
+      type,
+      detection,
+      renamedHeaders: renamed,
+      coercionFailures: failures,
+      data: rows as FileData['data'],
+      fileName: `${fileName} - ${sheetName}`,
+      columns: headers,
+      dialect,
+      parseWarnings: layout.warnings
+    });
+  }
+
+  if (results.length === 0) {
+    throw new Error('No valid data found in the file');
   }
-  
-  // Default to tasks if no clear pattern
-  return 'tasks';
+
+  return results;
 }
 
-export function parseFile(file: File): Promise<FileData[]> {
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const results: FileData[] = [];
-        
-        // Process each sheet in the workbook
-        workbook.SheetNames.forEach(sheetName => {
-          const worksheet = workbook.Sheets[sheetName];
-          
-          // Convert to JSON
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-          
-          if (jsonData.length === 0) {
-            return; // Skip empty sheets
-          }
-          
-          const headers = jsonData[0] as string[];
-          const rows = jsonData.slice(1) as any[][];
-          
-          // Convert rows to objects
-          const objects = rows.map((row, index) => {
-            const obj: any = {};
-            headers.forEach((header, colIndex) => {
-              let value = row[colIndex] || '';
-              
-              // Handle specific ID fields - ensure they're strings
-              const headerLower = header.toLowerCase();
-              if (headerLower.includes('id') || headerLower.includes('taskid') || headerLower.includes('clientid') || headerLower.includes('workerid')) {
-                value = String(value);
-              }
-              
-              // Handle empty values
-              if (value === null || value === undefined) {
-                value = '';
-              }
-              
-              obj[header] = value;
-            });
-            return obj;
-          }).filter(obj => {
-            // Filter out completely empty rows
-            return Object.values(obj).some(value => value !== '' && value !== null && value !== undefined);
-          });
-          
-          if (objects.length === 0) {
-            return; // Skip sheets with no valid data
-          }
-          
-          const entityType = detectEntityType(headers);
-          
-          results.push({
-            type: entityType,
-            data: objects,
-            fileName: `${file.name} - ${sheetName}`,
-            columns: headers
-          });
-        });
-        
-        if (results.length === 0) {
-          reject(new Error('No valid data found in the file'));
-          return;
-        }
-        
-        resolve(results);
-      } catch (error) {
-        reject(error);
-      }
-    };
-    
+    reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
     reader.onerror = () => reject(new Error('Failed to read file'));
     reader.readAsArrayBuffer(file);
   });
-} 
\ No newline at end of file
+}
+
+// Run parseWorkbook inside a Web Worker so large files don't block the UI.
+// Aborting the signal terminates the worker immediately.
+function parseInWorker(buffer: ArrayBuffer, fileName: string, options: ParseOptions): Promise<FileData[]> {
+  const { onProgress, signal, chunkSize = DEFAULT_CHUNK_SIZE, aliases = DEFAULT_HEADER_ALIASES, dialect, entityType } = options;
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./fileParser.worker.ts', import.meta.url));
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createCancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'result':
+          cleanup();
+          resolve(message.results);
+          break;
+        case 'error':
+          cleanup();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Failed to parse file'));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: ParseWorkerRequest = { type: 'parse', buffer, fileName, chunkSize, aliases, dialect, entityType };
+    worker.postMessage(request, [buffer]);
+  });
+}
+
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<FileData[]> {
+  if (options.signal?.aborted) throw createCancelledError();
+
+  const buffer = await readFileAsArrayBuffer(file);
+
+  // Fall back to chunked parsing on the main thread where workers are unavailable
+  if (typeof Worker === 'undefined') {
+    return parseWorkbook(buffer, file.name, options);
+  }
+
+  return parseInWorker(buffer, file.name, options);
+}
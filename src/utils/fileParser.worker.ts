@@ -0,0 +1,27 @@
+import { parseWorkbook, ParseWorkerRequest, ParseWorkerResponse } from './fileParser';
+
+// The project compiles against the DOM lib, so type the worker scope by hand
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseWorkerRequest>) => void) | null;
+  postMessage: (message: ParseWorkerResponse) => void;
+};
+
+workerScope.onmessage = async (event) => {
+  const { buffer, fileName, chunkSize, aliases, dialect, entityType } = event.data;
+
+  try {
+    const results = await parseWorkbook(buffer, fileName, {
+      chunkSize,
+      aliases,
+      dialect,
+      entityType,
+      onProgress: progress => workerScope.postMessage({ type: 'progress', progress })
+    });
+    workerScope.postMessage({ type: 'result', results });
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse file'
+    });
+  }
+};
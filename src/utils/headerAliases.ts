@@ -0,0 +1,62 @@
+import { EntityType } from '../types';
+
+// Canonical field name -> alternative header spellings, per entity.
+// Case, spaces, underscores and hyphens are ignored when matching, so only
+// genuinely different wordings need to be listed.
+export type HeaderAliasDictionary = Record<EntityType, Record<string, string[]>>;
+
+export const DEFAULT_HEADER_ALIASES: HeaderAliasDictionary = {
+  clients: {
+    ClientID: ['Client', 'Customer ID', 'Customer', 'Client No', 'Client Number', 'Client Code'],
+    Name: ['Client Name', 'Customer Name', 'Company', 'Company Name', 'Full Name'],
+    Email: ['E-mail', 'Email Address', 'Mail'],
+    Phone: ['Phone Number', 'Telephone', 'Tel', 'Mobile', 'Contact Number'],
+    PriorityLevel: ['Priority', 'Prio'],
+    RequestedTaskIDs: ['Requested Tasks', 'Requested Task ID', 'Task IDs', 'Tasks Requested'],
+    GroupTag: ['Group', 'Client Group'],
+    AttributesJSON: ['Attributes', 'Metadata']
+  },
+  workers: {
+    WorkerID: ['Worker', 'Employee ID', 'Employee', 'Staff ID', 'Emp ID', 'Worker No'],
+    Name: ['Worker Name', 'Employee Name', 'Full Name'],
+    Email: ['E-mail', 'Email Address', 'Mail'],
+    Phone: ['Phone Number', 'Telephone', 'Tel', 'Mobile', 'Contact Number'],
+    Position: ['Role', 'Job Title'],
+    Department: ['Dept'],
+    Skills: ['Skill', 'Skill Set', 'Competencies'],
+    AvailableSlots: ['Slots', 'Availability', 'Available Phases'],
+    MaxLoadPerPhase: ['Max Load', 'Load Limit', 'Capacity'],
+    WorkerGroup: ['Group', 'Team'],
+    QualificationLevel: ['Qualification', 'Level', 'Seniority']
+  },
+  tasks: {
+    TaskID: ['Task', 'Task No', 'Job ID'],
+    Title: ['Task Name', 'Task Title'],
+    ClientID: ['Client', 'Customer ID'],
+    WorkerID: ['Assignee', 'Assigned To', 'Worker'],
+    Status: ['State'],
+    DueDate: ['Due', 'Deadline'],
+    Category: ['Type'],
+    Duration: ['Length', 'Phases Needed'],
+    RequiredSkills: ['Required Skill', 'Skills Required', 'Skills Needed'],
+    PreferredPhases: ['Preferred Phase', 'Phases', 'Phase Preference'],
+    MaxConcurrent: ['Max Concurrency', 'Concurrency', 'Max Parallel'],
+    Dependencies: ['Depends On', 'Dependency', 'Prerequisites']
+  }
+};
+
+const ALIAS_STORAGE_KEY = 'clean-sheet:header-aliases';
+
+export function loadHeaderAliases(): HeaderAliasDictionary {
+  if (typeof window === 'undefined') return DEFAULT_HEADER_ALIASES;
+  try {
+    const stored = window.localStorage.getItem(ALIAS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_HEADER_ALIASES, ...JSON.parse(stored) } : DEFAULT_HEADER_ALIASES;
+  } catch {
+    return DEFAULT_HEADER_ALIASES;
+  }
+}
+
+export function saveHeaderAliases(aliases: HeaderAliasDictionary): void {
+  window.localStorage.setItem(ALIAS_STORAGE_KEY, JSON.stringify(aliases));
+}
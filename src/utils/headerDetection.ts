@@ -0,0 +1,179 @@
+import * as XLSX from 'xlsx';
+import { compactHeader } from './columnMapping';
+import { toText } from './cellValues';
+
+// Rows at the top of a sheet searched for the header
+export const HEADER_SCAN_ROWS = 20;
+
+export interface HeaderLayout {
+  // Index of the first header row within the scanned rows
+  headerRow: number;
+  // Number of stacked header rows (2 for a two-level header)
+  headerRowCount: number;
+  headers: string[];
+  warnings: string[];
+}
+
+function isTextCell(value: unknown): boolean {
+  const text = toText(value);
+  return text !== '' && typeof value !== 'number' && isNaN(Number(text));
+}
+
+function nonEmptyCount(row: unknown[]): number {
+  return row.filter(value => toText(value) !== '').length;
+}
+
+function countKnownHeaders(row: unknown[], knownHeaders: Set<string>): number {
+  return row.filter(value => knownHeaders.has(compactHeader(toText(value)))).length;
+}
+
+// A header row is wide and made entirely of text
+function looksLikeHeaderRow(row: unknown[], width: number): boolean {
+  const filled = nonEmptyCount(row);
+  return filled >= Math.max(2, Math.ceil(width / 2))
+    && row.every(value => toText(value) === '' || isTextCell(value));
+}
+
+// Two stacked header rows: either the top row has horizontal merges, or each row
+// has blanks the other fills in (a group label above sub-columns, with single
+// columns labelled only on one of the rows) and the lower row names known fields
+function isSecondHeaderRow(
+  top: unknown[],
+  next: unknown[] | undefined,
+  width: number,
+  hasMerges: boolean,
+  knownHeaders: Set<string>
+): boolean {
+  if (!next || nonEmptyCount(next) === 0) return false;
+  if (next.some(value => toText(value) !== '' && !isTextCell(value))) return false;
+
+  let nextFillsGap = false;
+  let topFillsGap = false;
+  for (let col = 0; col < width; col++) {
+    const topText = toText(top[col]);
+    const nextText = toText(next[col]);
+    if (!topText && nextText) nextFillsGap = true;
+    if (topText && !nextText) topFillsGap = true;
+  }
+  if (hasMerges) return nextFillsGap;
+  return nextFillsGap && topFillsGap && countKnownHeaders(next, knownHeaders) > 0;
+}
+
+// Give empty header cells a positional name and number repeated ones
+function dedupeHeaders(headers: string[], warnings: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header, col) => {
+    let name = header;
+    if (!name) {
+      name = `Column ${col + 1}`;
+      warnings.push(`Column ${col + 1} has no header; its values are kept under "${name}"`);
+    }
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    if (count > 1) {
+      const renamed = `${name} (${count})`;
+      warnings.push(`Duplicate header "${name}" in column ${col + 1} was renamed to "${renamed}"`);
+      return renamed;
+    }
+    return name;
+  });
+}
+
+// Number of columns, counted from the start of the range, holding a value in any row
+// of the range. Rows below the scanned ones may fill columns the header leaves blank.
+export function getSheetDataWidth(worksheet: XLSX.WorkSheet, range: XLSX.Range): number {
+  let width = 0;
+  Object.keys(worksheet).forEach(address => {
+    if (address.startsWith('!')) return;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    if (r >= range.s.r && r <= range.e.r && c >= range.s.c && toText((worksheet[address] as XLSX.CellObject).v) !== '') {
+      width = Math.max(width, c - range.s.c + 1);
+    }
+  });
+  return width;
+}
+
+// Find the header within the first rows of a sheet, skipping title banners and
+// blank rows, and flatten two-level headers into single field names.
+// Rows and merges are relative to the first scanned row and column. Trailing
+// columns without a header are kept up to dataWidth (see getSheetDataWidth),
+// which defaults to the columns filled in the scanned rows.
+export function detectHeaderLayout(
+  rows: unknown[][],
+  merges: XLSX.Range[],
+  knownHeaders: Set<string>,
+  dataWidth?: number
+): HeaderLayout {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const warnings: string[] = [];
+
+  // Prefer the row naming the most known fields, then the first header-like row
+  let headerRow = -1;
+  let mostKnown = 0;
+  rows.forEach((row, index) => {
+    const known = countKnownHeaders(row, knownHeaders);
+    if (known > mostKnown && looksLikeHeaderRow(row, width)) {
+      mostKnown = known;
+      headerRow = index;
+    }
+  });
+  if (headerRow < 0) {
+    headerRow = rows.findIndex(row => looksLikeHeaderRow(row, width));
+  }
+  if (headerRow < 0) {
+    headerRow = rows.findIndex(row => nonEmptyCount(row) > 0);
+  }
+  if (headerRow < 0) {
+    return { headerRow: 0, headerRowCount: 1, headers: [], warnings };
+  }
+  if (headerRow > 0) {
+    warnings.push(`Header found on row ${headerRow + 1}; ${headerRow} row${headerRow !== 1 ? 's' : ''} above it ${headerRow !== 1 ? 'were' : 'was'} skipped`);
+  }
+
+  const top = rows[headerRow];
+  const topMerges = merges.filter(merge => merge.s.r === headerRow && merge.e.c > merge.s.c);
+  const twoLevel = isSecondHeaderRow(top, rows[headerRow + 1], width, topMerges.length > 0, knownHeaders);
+
+  let headers: string[];
+  if (twoLevel) {
+    const bottom = rows[headerRow + 1];
+    // Spread each merged group label across the columns it covers
+    const groups = Array.from({ length: width }, (_, col) => toText(top[col]));
+    topMerges.forEach(merge => {
+      for (let col = merge.s.c + 1; col <= merge.e.c; col++) {
+        groups[col] = groups[merge.s.c];
+      }
+    });
+    // Without merges, a group label covers the blank cells to its right that have sub-labels
+    for (let col = 1; col < width; col++) {
+      if (!toText(top[col]) && toText(bottom[col]) && !topMerges.length) {
+        groups[col] = groups[col - 1];
+      }
+    }
+    headers = groups.map((group, col) => {
+      const sub = toText(bottom[col]);
+      if (!group || !sub || group === sub) return sub || group;
+      // "Contact" over "Email" becomes "Email" when only the sub-label is a known field
+      const combined = `${group} ${sub}`;
+      return knownHeaders.has(compactHeader(sub)) && !knownHeaders.has(compactHeader(combined)) ? sub : combined;
+    });
+    warnings.push(`Two header rows (${headerRow + 1} and ${headerRow + 2}) were combined into single column names`);
+  } else {
+    headers = Array.from({ length: width }, (_, col) => toText(top[col]));
+  }
+
+  // Drop trailing columns that have neither a header nor any data
+  const dataRows = rows.slice(headerRow + (twoLevel ? 2 : 1));
+  const filledWidth = dataWidth ?? dataRows.reduce((max, row) =>
+    Math.max(max, row.reduce<number>((last, value, col) => toText(value) !== '' ? col + 1 : last, 0)), 0);
+  while (headers.length > filledWidth && !headers[headers.length - 1]) {
+    headers.pop();
+  }
+
+  return {
+    headerRow,
+    headerRowCount: twoLevel ? 2 : 1,
+    headers: dedupeHeaders(headers, warnings),
+    warnings
+  };
+}
@@ -0,0 +1,215 @@
+import { Client, Worker, Task } from '../types';
+import {
+  RowValidationContext,
+  ValidationError,
+  ValidationOptions,
+  getValidationSchemas,
+  getRowIndex,
+  getRowKey,
+  createRowIdResolver,
+  validateDatasets,
+  validateRow
+} from './validation';
+import { SuppressedError, applyRuleSettings } from './ruleCatalog';
+import { toText, toTextList } from './cellValues';
+import { createSkillMatcher, getCoveredSkills, parseSkillList } from './skillTaxonomy';
+
+// A row edited in place; its index is unchanged by the edit
+export interface RowChange {
+  entityType: string;
+  rowIndex: number;
+}
+
+// Validation results plus the indexes needed to revalidate only what an edit affects.
+// The state is updated in place by validateIncrementally.
+export interface IncrementalValidationState {
+  rows: Record<string, Record<string, unknown>[]>;
+  options: ValidationOptions;
+  context: RowValidationContext;
+  // How many rows of each entity carry each ID
+  idCounts: Record<string, Map<string, number>>;
+  // "<entity>:<id>" -> keys of the rows referencing that ID, including task dependencies
+  referencedBy: Map<string, Set<string>>;
+  // Canonical skill -> indexes of the tasks requiring it
+  tasksBySkill: Map<string, Set<number>>;
+  rowErrors: Record<string, ValidationError[][]>;
+  // Results after the rule settings and suppressions are applied
+  errors: ValidationError[];
+  suppressed: SuppressedError[];
+}
+
+// Task dependencies are not a schema reference but changing a task ID affects its dependents
+const DEPENDENCY_FIELD = 'Dependencies';
+
+function addToIndex<K, V>(index: Map<K, Set<V>>, key: K, value: V, delta: 1 | -1) {
+  if (delta === 1) {
+    if (!index.has(key)) {
+      index.set(key, new Set());
+    }
+    index.get(key)!.add(value);
+  } else {
+    index.get(key)?.delete(value);
+    if (index.get(key)?.size === 0) index.delete(key);
+  }
+}
+
+// Add (delta 1) or remove (delta -1) one row's contribution to the indexes
+function indexRow(state: IncrementalValidationState, entityType: string, rowIndex: number, row: Record<string, unknown>, delta: 1 | -1) {
+  const schema = state.context.schemas[entityType];
+  const id = toText(row[schema.idField]);
+  if (id) {
+    const counts = state.idCounts[entityType];
+    const count = (counts.get(id) ?? 0) + delta;
+    if (count > 0) counts.set(id, count);
+    else counts.delete(id);
+  }
+
+  const rowKey = getRowKey(entityType, rowIndex);
+  schema.fields.forEach(field => {
+    if (field.references) {
+      toTextList(row[field.name]).forEach(target => addToIndex(state.referencedBy, `${field.references}:${target}`, rowKey, delta));
+    }
+  });
+
+  const { skillMatcher } = state.context;
+  if (entityType === 'workers') {
+    getCoveredSkills(skillMatcher, row.Skills).forEach(skill => addToIndex(state.context.skills, skill, rowIndex, delta));
+  }
+  if (entityType === 'tasks') {
+    toTextList(row[DEPENDENCY_FIELD]).forEach(target => addToIndex(state.referencedBy, `tasks:${target}`, rowKey, delta));
+    parseSkillList(row.RequiredSkills).forEach(({ name }) => addToIndex(state.tasksBySkill, skillMatcher.canonical(name), rowIndex, delta));
+  }
+}
+
+function collectRows(clients: Client[], workers: Worker[], tasks: Task[], options: ValidationOptions) {
+  const rows: Record<string, Record<string, unknown>[]> = { clients, workers, tasks };
+  (options.customTypes ?? []).forEach(type => {
+    rows[type.key] = options.customData?.[type.key] ?? [];
+  });
+  return rows;
+}
+
+function collectErrors(state: IncrementalValidationState, clients: Client[], workers: Worker[], tasks: Task[]) {
+  const { errors, suppressed } = applyRuleSettings([
+    ...Object.values(state.rowErrors).flat(2),
+    ...validateDatasets(clients, workers, tasks, state.options)
+  ], state.options.ruleOverrides, state.options.suppressions, createRowIdResolver(state.rows, state.context.schemas));
+  state.errors = errors;
+  state.suppressed = suppressed;
+}
+
+// Index every row and validate everything
+function createState(clients: Client[], workers: Worker[], tasks: Task[], options: ValidationOptions): IncrementalValidationState {
+  const rows = collectRows(clients, workers, tasks, options);
+  const idCounts: Record<string, Map<string, number>> = {};
+  Object.keys(rows).forEach(entityType => {
+    idCounts[entityType] = new Map();
+  });
+
+  const state: IncrementalValidationState = {
+    rows,
+    options,
+    context: {
+      schemas: getValidationSchemas(options.customTypes, options.validationRules),
+      ids: idCounts,
+      skills: new Map(),
+      skillMatcher: createSkillMatcher(options.skillTaxonomy),
+      workers,
+      validationRules: options.validationRules,
+      userRules: options.userRules ?? []
+    },
+    idCounts,
+    referencedBy: new Map(),
+    tasksBySkill: new Map(),
+    rowErrors: {},
+    errors: [],
+    suppressed: []
+  };
+
+  Object.entries(rows).forEach(([entityType, entityRows]) => {
+    entityRows.forEach((row, rowIndex) => indexRow(state, entityType, rowIndex, row, 1));
+  });
+  Object.entries(rows).forEach(([entityType, entityRows]) => {
+    state.rowErrors[entityType] = entityRows.map((row, rowIndex) => validateRow(entityType, row, rowIndex, state.context));
+  });
+  collectErrors(state, clients, workers, tasks);
+  return state;
+}
+
+// Whether the tracked changes explain every difference from the last validated data
+function canApplyChanges(
+  state: IncrementalValidationState,
+  rows: Record<string, Record<string, unknown>[]>,
+  options: ValidationOptions,
+  changes: RowChange[]
+): boolean {
+  if (options.customTypes !== state.options.customTypes
+    || options.validationRules !== state.options.validationRules
+    || options.userRules !== state.options.userRules
+    || options.skillTaxonomy !== state.options.skillTaxonomy) {
+    return false;
+  }
+  return Object.entries(rows).every(([entityType, entityRows]) => {
+    const previous = state.rows[entityType];
+    if (entityRows === previous) return true;
+    if (previous === undefined || entityRows.length !== previous.length) return false;
+    // A row replaced without a tracked change, e.g. by a bulk fix, needs a full validation
+    const tracked = new Set(changes.filter(change => change.entityType === entityType).map(change => change.rowIndex));
+    return entityRows.every((row, rowIndex) => row === previous[rowIndex] || tracked.has(rowIndex));
+  });
+}
+
+// Validate the data, reusing the previous state when only the tracked rows changed.
+// An edited row is revalidated together with the rows referencing its old or new ID,
+// and an edited worker's skills revalidate the tasks requiring them. Uploads, removed
+// rows and rule or taxonomy changes fall back to a full validation.
+export function validateIncrementally(
+  previous: IncrementalValidationState | null,
+  clients: Client[],
+  workers: Worker[],
+  tasks: Task[],
+  options: ValidationOptions,
+  changes: RowChange[]
+): IncrementalValidationState {
+  const rows = collectRows(clients, workers, tasks, options);
+  if (!previous || !canApplyChanges(previous, rows, options, changes)) {
+    return createState(clients, workers, tasks, options);
+  }
+
+  const state = previous;
+  const affected = new Set<string>();
+  const reindexed = new Set<string>();
+  changes.forEach(({ entityType, rowIndex }) => {
+    const rowKey = getRowKey(entityType, rowIndex);
+    const before = state.rows[entityType]?.[rowIndex];
+    const after = rows[entityType]?.[rowIndex];
+    if (!before || !after || before === after || reindexed.has(rowKey)) return;
+
+    reindexed.add(rowKey);
+    affected.add(rowKey);
+    const idField = state.context.schemas[entityType].idField;
+    [toText(before[idField]), toText(after[idField])].forEach(id => {
+      state.referencedBy.get(`${entityType}:${id}`)?.forEach(rowKey => affected.add(rowKey));
+    });
+    if (entityType === 'workers') {
+      const { skillMatcher } = state.context;
+      [...getCoveredSkills(skillMatcher, before.Skills), ...getCoveredSkills(skillMatcher, after.Skills)].forEach(skill => {
+        state.tasksBySkill.get(skill)?.forEach(taskIndex => affected.add(getRowKey('tasks', taskIndex)));
+      });
+    }
+
+    indexRow(state, entityType, rowIndex, before, -1);
+    indexRow(state, entityType, rowIndex, after, 1);
+  });
+
+  state.rows = rows;
+  state.options = options;
+  state.context.workers = workers;
+  affected.forEach(rowKey => {
+    const entityType = rowKey.slice(0, rowKey.lastIndexOf('-'));
+    const rowIndex = getRowIndex(rowKey);
+    state.rowErrors[entityType][rowIndex] = validateRow(entityType, rows[entityType][rowIndex], rowIndex, state.context);
+  });
+  collectErrors(state, clients, workers, tasks);
+  return state;
+}
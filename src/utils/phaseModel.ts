@@ -0,0 +1,162 @@
+import { Worker, Task } from '../types';
+import { toText } from './cellValues';
+import { getPhaseHours } from './timeSlots';
+
+// Demand and capacity of one scheduling phase
+export interface PhaseLoad {
+  phase: number;
+  // Phases of work the tasks preferring this phase need from it. A task's Duration is
+  // spread over its preferred phases, and it takes at most one slot per phase; a
+  // longer Duration is reported as infeasible rather than counted here.
+  demand: number;
+  // Sum of MaxLoadPerPhase over the workers available in this phase
+  capacity: number;
+  taskIds: string[];
+  // Row index of each task in taskIds
+  taskIndexes: number[];
+  workerIds: string[];
+  // Hours of the usable time slots the workers offer in this phase; phase-number slots carry none
+  hours: number;
+}
+
+// Longest range accepted, so a typo such as 1-10000 cannot blow up a cell
+const MAX_RANGE_LENGTH = 100;
+
+function toPhase(value: unknown): number | null {
+  const phase = typeof value === 'number' ? value : Number(toText(value));
+  return toText(value) !== '' && Number.isInteger(phase) && phase > 0 ? phase : null;
+}
+
+// Parse a list of phases written as a range ("1-3"), a bracketed list ("[2,4]"),
+// a plain list ("2,3,5") or a mix ("1-3, 6"). Returns the phases sorted without
+// duplicates, or null when any entry is not a phase number or range.
+export function parsePhaseList(value: unknown): number[] | null {
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === 'number') {
+    items = [value];
+  } else if (typeof value === 'string') {
+    items = value.trim().replace(/^\[|\]$/g, '').split(/[,;]/).map(item => item.trim()).filter(item => item !== '');
+  } else {
+    return null;
+  }
+
+  const phases = new Set<number>();
+  for (const item of items) {
+    const range = typeof item === 'string' ? item.match(/^(\d+)\s*-\s*(\d+)$/) : null;
+    if (range) {
+      const start = toPhase(range[1]);
+      const end = toPhase(range[2]);
+      if (start === null || end === null || end < start || end - start >= MAX_RANGE_LENGTH) return null;
+      for (let phase = start; phase <= end; phase++) phases.add(phase);
+      continue;
+    }
+    const phase = toPhase(item);
+    if (phase === null) return null;
+    phases.add(phase);
+  }
+  return [...phases].sort((a, b) => a - b);
+}
+
+// Phase numbers of a task's PreferredPhases; unreadable values give no phases
+export function parsePreferredPhases(value: unknown): number[] {
+  return parsePhaseList(value) ?? [];
+}
+
+// Phase numbers a worker is available in. Slots may be phase numbers or objects
+// carrying the phase as `phase` or `slot`; time ranges without a phase are skipped.
+export function parseSlotPhases(value: unknown): number[] {
+  const phases = parsePhaseList(value);
+  if (phases) return phases;
+
+  let slots: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      slots = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(slots)) return [];
+  const slotPhases = slots.map(slot => {
+    if (typeof slot !== 'object' || slot === null) return null;
+    const { phase, slot: slotNumber } = slot as Record<string, unknown>;
+    return toPhase(phase ?? slotNumber);
+  });
+  return [...new Set(slotPhases.filter((phase): phase is number => phase !== null))].sort((a, b) => a - b);
+}
+
+// Whether a cell already holds a sorted phase array without duplicates
+function isNormalizedPhaseList(value: unknown, phases: number[]): boolean {
+  return Array.isArray(value) && value.length === phases.length && value.every((item, index) => item === phases[index]);
+}
+
+// Rewrite the phase-list fields of each row as sorted phase arrays. Cells that
+// cannot be read as phases (e.g. slot objects) are left alone.
+export function normalizePhaseFields<T extends Record<string, unknown>>(
+  rows: T[],
+  fields: string[]
+): { rows: T[]; changedCells: number } {
+  let changedCells = 0;
+  const normalized = rows.map(row => {
+    const changes: Record<string, number[]> = {};
+    fields.forEach(field => {
+      const value = row[field];
+      if (toText(value) === '') return;
+      const phases = parsePhaseList(value);
+      if (phases && !isNormalizedPhaseList(value, phases)) {
+        changes[field] = phases;
+      }
+    });
+    changedCells += Object.keys(changes).length;
+    return Object.keys(changes).length > 0 ? { ...row, ...changes } : row;
+  });
+  return { rows: normalized, changedCells };
+}
+
+// Tasks a worker can run at once in each phase. Blank means 1; invalid values add no capacity.
+function getPhaseCapacity(worker: Worker): number {
+  if (toText(worker.MaxLoadPerPhase) === '') return 1;
+  const maxLoad = Number(worker.MaxLoadPerPhase);
+  return maxLoad > 0 ? maxLoad : 0;
+}
+
+// Demand and capacity of every phase that is preferred by a task or offered by a worker
+export function computePhaseLoads(workers: Worker[], tasks: Task[]): PhaseLoad[] {
+  const loads = new Map<number, PhaseLoad>();
+  const getLoad = (phase: number) => {
+    if (!loads.has(phase)) {
+      loads.set(phase, { phase, demand: 0, capacity: 0, taskIds: [], taskIndexes: [], workerIds: [], hours: 0 });
+    }
+    return loads.get(phase)!;
+  };
+
+  tasks.forEach((task, taskIndex) => {
+    const duration = Number(task.Duration);
+    if (!(duration > 0)) return;
+    const phases = parsePreferredPhases(task.PreferredPhases);
+    const share = Math.min(duration, phases.length) / phases.length;
+    phases.forEach(phase => {
+      const load = getLoad(phase);
+      load.demand += share;
+      load.taskIds.push(toText(task.TaskID));
+      load.taskIndexes.push(taskIndex);
+    });
+  });
+
+  workers.forEach(worker => {
+    const capacity = getPhaseCapacity(worker);
+    const phaseHours = getPhaseHours(worker.AvailableSlots);
+    parseSlotPhases(worker.AvailableSlots).forEach(phase => {
+      // A phase offered only through unusable time ranges adds no capacity
+      if (phaseHours.get(phase) === 0) return;
+      const load = getLoad(phase);
+      load.capacity += capacity;
+      load.hours += phaseHours.get(phase) ?? 0;
+      load.workerIds.push(toText(worker.WorkerID));
+    });
+  });
+
+  return [...loads.values()].sort((a, b) => a.phase - b.phase);
+}
@@ -0,0 +1,149 @@
+import { RuleOverride, UserValidationRule, ValidationSuppression } from '../types';
+import type { ValidationError } from './validation';
+
+// Stable codes of the built-in checks. Codes are part of exported reports and saved
+// settings, so they must not be renamed.
+export type RuleCode =
+  | 'required-field'
+  | 'invalid-type'
+  | 'out-of-range'
+  | 'invalid-format'
+  | 'unknown-reference'
+  | 'duplicate-id'
+  | 'slot-overload'
+  | 'invalid-slot-time'
+  | 'inverted-slot'
+  | 'overlapping-slots'
+  | 'unmatched-skills'
+  | 'no-qualified-worker'
+  | 'max-concurrent'
+  | 'phase-saturation'
+  | 'duration-exceeds-phases'
+  | 'self-dependency'
+  | 'unknown-dependency'
+  | 'dependency-phase-order'
+  | 'circular-dependency';
+
+// User-authored rules are reported under their own ID
+export type UserRuleCode = `user:${string}`;
+
+export interface RuleDefinition {
+  code: RuleCode;
+  title: string;
+  description: string;
+  // Severity reported when not overridden; a few checks vary it by field
+  severity: 'error' | 'warning';
+}
+
+export const RULE_CATALOG: RuleDefinition[] = [
+  { code: 'required-field', title: 'Required field', description: 'A required field, such as an ID or name, is blank.', severity: 'error' },
+  { code: 'invalid-type', title: 'Invalid type', description: 'A value cannot be read as the field\'s type (number, list, JSON, phases).', severity: 'error' },
+  { code: 'out-of-range', title: 'Out of range', description: 'A number is outside the field\'s allowed range, e.g. PriorityLevel 1-5.', severity: 'error' },
+  { code: 'invalid-format', title: 'Invalid format', description: 'A value does not have the field\'s format, e.g. an email address or time slots.', severity: 'error' },
+  { code: 'unknown-reference', title: 'Unknown reference', description: 'A referenced ID, such as a requested TaskID, does not exist.', severity: 'error' },
+  { code: 'duplicate-id', title: 'Duplicate ID', description: 'Several rows of an entity share the same ID.', severity: 'error' },
+  { code: 'slot-overload', title: 'Slot overload', description: 'A worker has fewer usable slots than their MaxLoadPerPhase.', severity: 'warning' },
+  { code: 'invalid-slot-time', title: 'Invalid slot time', description: 'A slot\'s start or end cannot be read as a time or date, or mixes the two.', severity: 'error' },
+  { code: 'inverted-slot', title: 'Inverted slot', description: 'A dated slot ends before it starts, or a slot has zero length. Times of day ending before they start run past midnight.', severity: 'error' },
+  { code: 'overlapping-slots', title: 'Overlapping slots', description: 'A worker\'s slots overlap on the same day or phase, so their hours count once.', severity: 'warning' },
+  { code: 'unmatched-skills', title: 'Unmatched skills', description: 'No worker has one of the task\'s required skills at the required level.', severity: 'warning' },
+  { code: 'no-qualified-worker', title: 'No qualified worker', description: 'No single worker has all of the task\'s required skills.', severity: 'error' },
+  { code: 'max-concurrent', title: 'MaxConcurrent feasibility', description: 'MaxConcurrent exceeds the number of qualified workers.', severity: 'warning' },
+  { code: 'phase-saturation', title: 'Phase saturation', description: 'The tasks preferring a phase, with each Duration spread over its preferred phases, need more than the capacity of the workers available in it.', severity: 'warning' },
+  { code: 'duration-exceeds-phases', title: 'Duration exceeds phases', description: 'A task\'s Duration is longer than its list of preferred phases, while it takes at most one slot per phase.', severity: 'error' },
+  { code: 'self-dependency', title: 'Self dependency', description: 'A task lists itself among its dependencies.', severity: 'error' },
+  { code: 'unknown-dependency', title: 'Unknown dependency', description: 'A task depends on a TaskID that does not exist.', severity: 'error' },
+  { code: 'dependency-phase-order', title: 'Dependency phase order', description: 'A task\'s preferred phases all end before a dependency\'s earliest preferred phase.', severity: 'warning' },
+  { code: 'circular-dependency', title: 'Circular dependency', description: 'Tasks depend on each other in a cycle.', severity: 'error' }
+];
+
+export function getUserRuleCode(ruleId: string): UserRuleCode {
+  return `user:${ruleId}`;
+}
+
+// Catalog title of a code, or the name of the user rule it belongs to
+export function getRuleTitle(code: string, userRules: UserValidationRule[] = []): string {
+  const definition = RULE_CATALOG.find(rule => rule.code === code);
+  if (definition) return definition.title;
+  return userRules.find(rule => getUserRuleCode(rule.id) === code)?.name ?? code;
+}
+
+// An error silenced by a suppression, kept so it can be reviewed and exported
+export interface SuppressedError {
+  error: ValidationError;
+  suppression: ValidationSuppression;
+}
+
+export function createSuppression(error: ValidationError, justification: string): ValidationSuppression {
+  return {
+    id: `suppression-${Date.now()}`,
+    code: error.code,
+    entityType: error.entityType,
+    rowId: error.rowId,
+    rowKey: error.rowKey,
+    field: error.field,
+    justification: justification.trim(),
+    createdAt: new Date().toISOString()
+  };
+}
+
+// ID of the row a key currently refers to, or undefined when there is no such row
+export type RowIdResolver = (entityType: string, rowKey: string) => string | undefined;
+
+// A suppression applies to the row it was created on. Only once that row's key no
+// longer holds the same ID (the data was re-imported or reordered) does it follow
+// the row ID instead.
+function suppresses(suppression: ValidationSuppression, error: ValidationError, resolveRowId?: RowIdResolver): boolean {
+  if (suppression.code !== error.code || suppression.entityType !== error.entityType || suppression.field !== error.field) {
+    return false;
+  }
+  const keyResolves = !resolveRowId || resolveRowId(suppression.entityType, suppression.rowKey) === suppression.rowId;
+  return keyResolves
+    ? suppression.rowKey === error.rowKey
+    : suppression.rowId !== '' && suppression.rowId === error.rowId;
+}
+
+// Drop disabled rules, apply severity overrides and set suppressed errors aside
+export function applyRuleSettings(
+  errors: ValidationError[],
+  overrides: Record<string, RuleOverride> = {},
+  suppressions: ValidationSuppression[] = [],
+  resolveRowId?: RowIdResolver
+): { errors: ValidationError[]; suppressed: SuppressedError[] } {
+  const active: ValidationError[] = [];
+  const suppressed: SuppressedError[] = [];
+  errors.forEach(error => {
+    const override = overrides[error.code];
+    if (override?.enabled === false) return;
+    const adjusted = override?.severity ? { ...error, severity: override.severity } : error;
+    const suppression = suppressions.find(item => suppresses(item, adjusted, resolveRowId));
+    if (suppression) {
+      suppressed.push({ error: adjusted, suppression });
+    } else {
+      active.push(adjusted);
+    }
+  });
+  return { errors: active, suppressed };
+}
+
+const RULE_SETTINGS_STORAGE_KEY = 'clean-sheet:rule-settings';
+
+export interface RuleSettings {
+  ruleOverrides: Record<string, RuleOverride>;
+  suppressions: ValidationSuppression[];
+}
+
+export function loadRuleSettings(): RuleSettings {
+  const empty: RuleSettings = { ruleOverrides: {}, suppressions: [] };
+  if (typeof window === 'undefined') return empty;
+  try {
+    const stored = window.localStorage.getItem(RULE_SETTINGS_STORAGE_KEY);
+    return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+  } catch {
+    return empty;
+  }
+}
+
+export function saveRuleSettings(settings: RuleSettings): void {
+  window.localStorage.setItem(RULE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
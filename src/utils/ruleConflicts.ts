@@ -0,0 +1,275 @@
+import { BusinessRule, Client, CoRunRule, PhaseWindowRule, Task, Worker } from '../types';
+import { toText } from './cellValues';
+import { parsePhaseList, parsePreferredPhases, parseSlotPhases } from './phaseModel';
+import { SkillMatcher, createSkillMatcher, meetsRequirement, parseSkillList } from './skillTaxonomy';
+
+// Rules that cannot all hold, or that the data cannot satisfy
+export interface RuleConflict {
+  // Rules involved, in the order they were added
+  rules: BusinessRule[];
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+interface RuleData {
+  clients: Client[];
+  workers: Worker[];
+  tasks: Task[];
+}
+
+// Fields a group name may refer to, as offered by the rule builder
+const CLIENT_GROUP_FIELDS = ['ClientID', 'Name', 'Department', 'Email', 'GroupTag'];
+const WORKER_GROUP_FIELDS = ['WorkerID', 'Name', 'Department', 'Position', 'Email', 'WorkerGroup'];
+
+function formatPhases(phases: number[]): string {
+  return phases.length > 0 ? phases.join(', ') : 'none';
+}
+
+function intersect(a: number[], b: number[]): number[] {
+  return a.filter(phase => b.includes(phase));
+}
+
+export function describeBusinessRule(rule: BusinessRule): string {
+  switch (rule.type) {
+    case 'co-run':
+      return `Tasks ${rule.taskIDs.join(', ')} must run together`;
+    case 'slot-restriction':
+      return `${rule.groupType === 'client' ? 'Client' : 'Worker'} group "${rule.groupName}" requires minimum ${rule.minCommonSlots} common slots`;
+    case 'load-limit':
+      return `Worker group "${rule.workerGroup}" limited to ${rule.maxSlotsPerPhase} slots per phase`;
+    case 'phase-window':
+      return `Task ${rule.taskID} allowed in phases: ${rule.allowedPhases.join(', ')}`;
+  }
+}
+
+// Phases of a phase-window rule; entries may read "Phase 2" as offered by the rule builder, or "1-3"
+export function parseAllowedPhases(allowedPhases: string[]): number[] {
+  const phases = allowedPhases.flatMap(item => parsePhaseList(toText(item).replace(/^phases?\s*/i, '')) ?? []);
+  return [...new Set(phases)].sort((a, b) => a - b);
+}
+
+function isGroupMember(row: Record<string, unknown>, groupName: string, fields: string[]): boolean {
+  return fields.some(field => toText(row[field]) === groupName);
+}
+
+// Workers a load-limit or slot-restriction rule applies to; "All Workers" covers everyone
+function getWorkerGroup(workers: Worker[], groupName: string): Worker[] {
+  if (groupName === 'All Workers') return workers;
+  return workers.filter(worker => isGroupMember(worker, groupName, WORKER_GROUP_FIELDS));
+}
+
+function hasClientGroup(clients: Client[], groupName: string): boolean {
+  return groupName === 'All Clients' || clients.some(client => isGroupMember(client, groupName, CLIENT_GROUP_FIELDS));
+}
+
+// Co-run rules sharing a task, merged into groups of tasks that must all run together
+function getCoRunGroups(rules: CoRunRule[]): { taskIds: string[]; rules: CoRunRule[] }[] {
+  const groups: { taskIds: Set<string>; rules: CoRunRule[] }[] = [];
+  rules.forEach(rule => {
+    const taskIds = rule.taskIDs.map(toText).filter(Boolean);
+    const linked = groups.filter(group => taskIds.some(taskId => group.taskIds.has(taskId)));
+    linked.forEach(group => groups.splice(groups.indexOf(group), 1));
+    groups.push({
+      taskIds: new Set([...linked.flatMap(group => [...group.taskIds]), ...taskIds]),
+      rules: [...linked.flatMap(group => group.rules), rule]
+    });
+  });
+  return groups.map(group => ({
+    taskIds: [...group.taskIds],
+    rules: rules.filter(rule => group.rules.includes(rule))
+  }));
+}
+
+// Most tasks that can each get a different qualified worker (bipartite matching)
+function countAssignableTasks(candidates: number[][]): number {
+  const assigned = new Map<number, number>();
+  const assign = (task: number, seen: Set<number>): boolean => {
+    for (const worker of candidates[task]) {
+      if (seen.has(worker)) continue;
+      seen.add(worker);
+      const current = assigned.get(worker);
+      if (current === undefined || assign(current, seen)) {
+        assigned.set(worker, task);
+        return true;
+      }
+    }
+    return false;
+  };
+  return candidates.filter((_, task) => assign(task, new Set())).length;
+}
+
+// Check the business rules against each other and against the data. Each conflict
+// lists the rules involved; references to missing tasks or groups are reported once
+// and left out of the other checks.
+export function analyzeRuleConflicts(
+  rules: BusinessRule[],
+  { clients, workers, tasks }: RuleData,
+  matcher: SkillMatcher = createSkillMatcher()
+): RuleConflict[] {
+  const conflicts: RuleConflict[] = [];
+  const tasksById = new Map<string, Task>();
+  tasks.forEach(task => {
+    const taskId = toText(task.TaskID);
+    if (taskId && !tasksById.has(taskId)) tasksById.set(taskId, task);
+  });
+  // Phases offered by any worker; without readable slots, availability is not checked
+  const offeredPhases = [...new Set(workers.flatMap(worker => parseSlotPhases(worker.AvailableSlots)))];
+
+  const coRunRules = rules.filter((rule): rule is CoRunRule => rule.type === 'co-run');
+  const phaseWindows = rules.filter((rule): rule is PhaseWindowRule => rule.type === 'phase-window');
+
+  // Rules that refer to data that is not there
+  rules.forEach(rule => {
+    switch (rule.type) {
+      case 'co-run': {
+        const taskIds = [...new Set(rule.taskIDs.map(toText).filter(Boolean))];
+        const unknown = taskIds.filter(taskId => !tasksById.has(taskId));
+        if (unknown.length > 0) {
+          conflicts.push({ rules: [rule], message: `Co-run rule refers to unknown tasks: ${unknown.join(', ')}`, severity: 'error' });
+        }
+        if (taskIds.length < 2) {
+          conflicts.push({ rules: [rule], message: 'Co-run rule needs at least two different tasks', severity: 'warning' });
+        }
+        break;
+      }
+      case 'phase-window':
+        if (!tasksById.has(toText(rule.taskID))) {
+          conflicts.push({ rules: [rule], message: `Phase window refers to unknown task ${rule.taskID || '(none)'}`, severity: 'error' });
+        }
+        if (parseAllowedPhases(rule.allowedPhases).length === 0) {
+          conflicts.push({ rules: [rule], message: `Phase window for ${rule.taskID} allows no phases`, severity: 'error' });
+        }
+        break;
+      case 'load-limit':
+        if (getWorkerGroup(workers, rule.workerGroup).length === 0) {
+          conflicts.push({ rules: [rule], message: `Load limit refers to unknown worker group "${rule.workerGroup}"`, severity: 'warning' });
+        }
+        if (!(rule.maxSlotsPerPhase >= 1)) {
+          conflicts.push({ rules: [rule], message: `Load limit of ${rule.maxSlotsPerPhase} slots per phase leaves worker group "${rule.workerGroup}" no capacity`, severity: 'error' });
+        }
+        break;
+      case 'slot-restriction': {
+        const known = rule.groupType === 'client'
+          ? hasClientGroup(clients, rule.groupName)
+          : getWorkerGroup(workers, rule.groupName).length > 0;
+        if (!known) {
+          conflicts.push({ rules: [rule], message: `Slot restriction refers to unknown ${rule.groupType} group "${rule.groupName}"`, severity: 'warning' });
+        }
+        break;
+      }
+    }
+  });
+
+  // Phases each task may run in: the phases all its windows allow, else its PreferredPhases.
+  // Tasks without either are unconstrained and missing from the map.
+  const allowedPhases = new Map<string, { phases: number[]; rules: PhaseWindowRule[] }>();
+  tasksById.forEach((task, taskId) => {
+    const windows = phaseWindows.filter(rule => toText(rule.taskID) === taskId && parseAllowedPhases(rule.allowedPhases).length > 0);
+    const windowPhases = windows.map(rule => parseAllowedPhases(rule.allowedPhases));
+    if (windowPhases.length > 0) {
+      allowedPhases.set(taskId, { phases: windowPhases.reduce(intersect), rules: windows });
+      return;
+    }
+    const preferred = parsePreferredPhases(task.PreferredPhases);
+    if (preferred.length > 0) allowedPhases.set(taskId, { phases: preferred, rules: [] });
+  });
+
+  // Phase windows against each other and against the task and worker data
+  allowedPhases.forEach(({ phases, rules: windows }, taskId) => {
+    if (windows.length === 0) return;
+    if (phases.length === 0) {
+      conflicts.push({ rules: windows, message: `Phase windows for ${taskId} share no phase`, severity: 'error' });
+      return;
+    }
+    const duration = Number(tasksById.get(taskId)!.Duration);
+    if (duration > phases.length) {
+      conflicts.push({
+        rules: windows,
+        message: `${taskId} runs for ${duration} phases but its phase window allows only ${formatPhases(phases)}`,
+        severity: 'error'
+      });
+    }
+    if (offeredPhases.length > 0 && intersect(phases, offeredPhases).length === 0) {
+      conflicts.push({
+        rules: windows,
+        message: `No worker is available in the phases allowed for ${taskId} (${formatPhases(phases)})`,
+        severity: 'warning'
+      });
+    }
+  });
+
+  getCoRunGroups(coRunRules).forEach(group => {
+    const taskIds = group.taskIds.filter(taskId => tasksById.has(taskId));
+    if (taskIds.length < 2) return;
+
+    // Co-run tasks need a phase they may all run in
+    const constrained = taskIds.filter(taskId => allowedPhases.has(taskId));
+    if (constrained.length > 1 && constrained.every(taskId => allowedPhases.get(taskId)!.phases.length > 0)) {
+      const common = constrained.map(taskId => allowedPhases.get(taskId)!.phases).reduce(intersect);
+      if (common.length === 0) {
+        const involved: BusinessRule[] = [...group.rules, ...constrained.flatMap(taskId => allowedPhases.get(taskId)!.rules)];
+        conflicts.push({
+          rules: rules.filter(rule => involved.includes(rule)),
+          message: `Co-run tasks share no allowed phase (${constrained.map(taskId => `${taskId}: ${formatPhases(allowedPhases.get(taskId)!.phases)}`).join('; ')})`,
+          severity: 'error'
+        });
+      }
+    }
+
+    // Running together, every task needs a different qualified worker
+    const candidates = taskIds.map(taskId => {
+      const requirements = parseSkillList(tasksById.get(taskId)!.RequiredSkills);
+      return workers
+        .map((worker, index) => requirements.every(requirement => meetsRequirement(matcher, worker.Skills, requirement)) ? index : -1)
+        .filter(index => index >= 0);
+    });
+    const assignable = countAssignableTasks(candidates);
+    if (assignable < taskIds.length) {
+      conflicts.push({
+        rules: group.rules,
+        message: `Co-run group of ${taskIds.length} tasks (${taskIds.join(', ')}) needs ${taskIds.length} different qualified workers but only ${assignable} can be assigned`,
+        severity: 'error'
+      });
+    }
+  });
+
+  // Rules for the same group that set different limits
+  const limitsByGroup = new Map<string, { rules: BusinessRule[]; values: Set<number> }>();
+  const addLimit = (key: string, rule: BusinessRule, value: number) => {
+    if (!limitsByGroup.has(key)) {
+      limitsByGroup.set(key, { rules: [], values: new Set() });
+    }
+    limitsByGroup.get(key)!.rules.push(rule);
+    limitsByGroup.get(key)!.values.add(value);
+  };
+  rules.forEach(rule => {
+    if (rule.type === 'load-limit') addLimit(`load-limit:${rule.workerGroup}`, rule, rule.maxSlotsPerPhase);
+    if (rule.type === 'slot-restriction') addLimit(`slot-restriction:${rule.groupType}:${rule.groupName}`, rule, rule.minCommonSlots);
+  });
+  limitsByGroup.forEach(({ rules: groupRules, values }) => {
+    if (values.size > 1) {
+      conflicts.push({
+        rules: groupRules,
+        message: `Rules for the same group set different limits (${[...values].join(', ')})`,
+        severity: 'warning'
+      });
+    }
+  });
+
+  // Worker slot restrictions against the slots the group's workers have in common
+  rules.forEach(rule => {
+    if (rule.type !== 'slot-restriction' || rule.groupType !== 'worker') return;
+    const members = getWorkerGroup(workers, rule.groupName);
+    if (members.length === 0) return;
+    const common = members.map(worker => parseSlotPhases(worker.AvailableSlots)).reduce(intersect);
+    if (common.length < rule.minCommonSlots) {
+      conflicts.push({
+        rules: [rule],
+        message: `Workers in "${rule.groupName}" share ${common.length} slot${common.length !== 1 ? 's' : ''} (${formatPhases(common)}) but ${rule.minCommonSlots} are required`,
+        severity: 'warning'
+      });
+    }
+  });
+
+  return conflicts;
+}
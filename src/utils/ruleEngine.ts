@@ -0,0 +1,148 @@
+import { ConditionOperator, RuleCondition, UserValidationRule } from '../types';
+import type { ValidationError } from './validation';
+import { getUserRuleCode } from './ruleCatalog';
+import { isBlank, toTextList } from './cellValues';
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not-equals', label: 'does not equal' },
+  { value: 'greater-than', label: 'is greater than / after' },
+  { value: 'less-than', label: 'is less than / before' },
+  { value: 'matches', label: 'matches regex' },
+  { value: 'between', label: 'is between' },
+  { value: 'in-list', label: 'is one of' },
+  { value: 'empty', label: 'is empty' },
+  { value: 'exists', label: 'is filled in' }
+];
+
+// Operators that can compare against another field of the row
+export const COMPARISON_OPERATORS: ConditionOperator[] = ['equals', 'not-equals', 'greater-than', 'less-than'];
+
+function asText(value: unknown): string {
+  if (isBlank(value)) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value).trim();
+}
+
+// Order two values as numbers, then as dates, then case-insensitively as text
+function compareValues(a: unknown, b: unknown): number {
+  const textA = asText(a);
+  const textB = asText(b);
+  const numberA = Number(textA);
+  const numberB = Number(textB);
+  if (textA !== '' && textB !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+    return numberA - numberB;
+  }
+  const dateA = Date.parse(textA);
+  const dateB = Date.parse(textB);
+  if (isNaN(Number(textA)) && isNaN(Number(textB)) && !isNaN(dateA) && !isNaN(dateB)) {
+    return dateA - dateB;
+  }
+  return textA.toLowerCase().localeCompare(textB.toLowerCase());
+}
+
+function testOperator(operator: ConditionOperator, value: unknown, target: unknown): boolean {
+  switch (operator) {
+    case 'empty':
+      return isBlank(value);
+    case 'exists':
+      return !isBlank(value);
+    case 'equals':
+      return compareValues(value, target) === 0;
+    case 'not-equals':
+      return compareValues(value, target) !== 0;
+    case 'greater-than':
+      return compareValues(value, target) > 0;
+    case 'less-than':
+      return compareValues(value, target) < 0;
+    case 'matches':
+      try {
+        return new RegExp(String(target ?? '')).test(asText(value));
+      } catch {
+        return false;
+      }
+    case 'between': {
+      const [min, max] = Array.isArray(target) ? target : [];
+      return (isBlank(min) || compareValues(value, min) >= 0) && (isBlank(max) || compareValues(value, max) <= 0);
+    }
+    case 'in-list': {
+      const options = toTextList(target).map(option => option.toLowerCase());
+      const values = Array.isArray(value) ? value.map(item => asText(item)) : [asText(value)];
+      return values.every(item => options.includes(item.toLowerCase()));
+    }
+  }
+}
+
+// Whether one condition holds for a row. Blank cells only satisfy 'empty'.
+export function evaluateCondition(row: Record<string, unknown>, condition: RuleCondition): boolean {
+  const value = row[condition.field];
+  const target = condition.compareField ? row[condition.compareField] : condition.value;
+  const needsValues = condition.operator !== 'empty' && condition.operator !== 'exists';
+  if (needsValues && (isBlank(value) || (condition.compareField && isBlank(target)))) {
+    return false;
+  }
+  const result = testOperator(condition.operator, value, target);
+  return condition.negate ? !result : result;
+}
+
+export function ruleMatches(row: Record<string, unknown>, rule: UserValidationRule): boolean {
+  if (rule.conditions.length === 0) return false;
+  return rule.match === 'any'
+    ? rule.conditions.some(condition => evaluateCondition(row, condition))
+    : rule.conditions.every(condition => evaluateCondition(row, condition));
+}
+
+// Problems that would stop a rule from running as intended
+export function checkUserRule(rule: UserValidationRule): string[] {
+  const problems: string[] = [];
+  if (!rule.name.trim()) problems.push('A name is required');
+  if (!rule.message.trim()) problems.push('A message is required');
+  if (rule.conditions.length === 0) problems.push('Add at least one condition');
+  rule.conditions.forEach((condition, index) => {
+    if (!condition.field) problems.push(`Condition ${index + 1} needs a field`);
+    if (condition.operator === 'matches' && !condition.compareField) {
+      try {
+        new RegExp(String(condition.value ?? ''));
+      } catch {
+        problems.push(`Condition ${index + 1} has an invalid regular expression`);
+      }
+    }
+  });
+  return problems;
+}
+
+// Readable one-line summary of a rule's conditions
+export function describeConditions(rule: UserValidationRule): string {
+  return rule.conditions.map(condition => {
+    const operator = CONDITION_OPERATORS.find(option => option.value === condition.operator)?.label ?? condition.operator;
+    let target = '';
+    if (condition.compareField) {
+      target = ` ${condition.compareField}`;
+    } else if (condition.operator === 'between' && Array.isArray(condition.value)) {
+      target = ` ${condition.value[0] ?? ''} and ${condition.value[1] ?? ''}`;
+    } else if (condition.operator !== 'empty' && condition.operator !== 'exists') {
+      target = ` "${Array.isArray(condition.value) ? condition.value.join(', ') : condition.value ?? ''}"`;
+    }
+    return `${condition.negate ? 'NOT ' : ''}${condition.field} ${operator}${target}`;
+  }).join(rule.match === 'any' ? ' OR ' : ' AND ');
+}
+
+// Run the enabled rules for one entity against a row, reporting each rule it matches
+export function evaluateUserRules(
+  rules: UserValidationRule[],
+  entityType: string,
+  row: Record<string, unknown>,
+  rowKey: string,
+  idField: string
+): ValidationError[] {
+  return rules
+    .filter(rule => rule.enabled && rule.entityType === entityType && ruleMatches(row, rule))
+    .map(rule => ({
+      entityType,
+      rowKey,
+      rowId: asText(row[idField]),
+      field: rule.field || rule.conditions[0].field,
+      code: getUserRuleCode(rule.id),
+      message: rule.message,
+      severity: rule.severity
+    }));
+}
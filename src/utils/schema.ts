@@ -0,0 +1,198 @@
+import type { EntityType, FieldType } from '../types';
+
+// Structural checks beyond the field type
+export type FieldFormat = 'json-object' | 'time-slots' | 'email' | 'phone';
+
+// Declarative description of one entity field. Coercion, validation, column
+// mapping and grid columns are all derived from these definitions.
+export interface FieldSchema {
+  name: string;
+  type: FieldType;
+  required?: boolean;
+  // Inclusive bounds for numeric fields
+  min?: number;
+  max?: number;
+  format?: FieldFormat;
+  // Values must be IDs of rows in this entity (a built-in or custom entity key)
+  references?: string;
+  referenceSeverity?: 'error' | 'warning';
+  description?: string;
+  // Grid column width in pixels
+  width?: number;
+}
+
+export interface EntitySchema {
+  idField: string;
+  fields: readonly FieldSchema[];
+}
+
+export const ENTITY_SCHEMAS = {
+  clients: {
+    idField: 'ClientID',
+    fields: [
+      { name: 'ClientID', type: 'id', required: true, width: 130 },
+      { name: 'Name', type: 'string', required: true, width: 200 },
+      { name: 'Email', type: 'string', width: 250 },
+      { name: 'Phone', type: 'string', width: 150 },
+      { name: 'Address', type: 'string', width: 300 },
+      { name: 'PriorityLevel', type: 'integer', min: 1, max: 5, description: '1 (lowest) to 5 (highest)' },
+      { name: 'RequestedTaskIDs', type: 'string-list', references: 'tasks', referenceSeverity: 'warning', width: 200 },
+      { name: 'GroupTag', type: 'string' },
+      { name: 'AttributesJSON', type: 'json', format: 'json-object', width: 200 }
+    ]
+  },
+  workers: {
+    idField: 'WorkerID',
+    fields: [
+      { name: 'WorkerID', type: 'id', required: true, width: 130 },
+      { name: 'Name', type: 'string', width: 200 },
+      { name: 'Email', type: 'string', width: 250 },
+      { name: 'Phone', type: 'string', width: 150 },
+      { name: 'Position', type: 'string' },
+      { name: 'Department', type: 'string' },
+      { name: 'Skills', type: 'string-list', required: true, width: 200 },
+      { name: 'AvailableSlots', type: 'slot-list', format: 'time-slots', width: 200 },
+      { name: 'MaxLoadPerPhase', type: 'integer', min: 1 },
+      { name: 'WorkerGroup', type: 'string' },
+      { name: 'QualificationLevel', type: 'integer' }
+    ]
+  },
+  tasks: {
+    idField: 'TaskID',
+    fields: [
+      { name: 'TaskID', type: 'id', required: true, width: 130 },
+      { name: 'Title', type: 'string', width: 200 },
+      { name: 'Name', type: 'string', width: 200 },
+      { name: 'Description', type: 'string', width: 300 },
+      { name: 'ClientID', type: 'id', width: 130 },
+      { name: 'WorkerID', type: 'id', width: 130 },
+      { name: 'Status', type: 'string' },
+      { name: 'Priority', type: 'string' },
+      { name: 'PriorityLevel', type: 'integer', min: 1, max: 5, description: '1 (lowest) to 5 (highest)' },
+      { name: 'DueDate', type: 'date', width: 130 },
+      { name: 'Category', type: 'string' },
+      { name: 'Duration', type: 'integer', min: 1, description: 'Number of phases the task runs for' },
+      { name: 'RequiredSkills', type: 'string-list', width: 200 },
+      { name: 'PreferredPhases', type: 'phase-list', width: 200 },
+      { name: 'MaxConcurrent', type: 'integer', min: 1 },
+      { name: 'Dependencies', type: 'string-list' }
+    ]
+  }
+} as const satisfies Record<EntityType, EntitySchema>;
+
+// TypeScript value type of each field type once coerced
+type FieldValue<T extends FieldType> =
+  T extends 'integer' | 'number' ? number
+  : T extends 'number-list' | 'phase-list' ? number[]
+  : T extends 'slot-list' ? (number | Record<string, unknown>)[]
+  : T extends 'string-list' ? string[]
+  : T extends 'json' ? unknown
+  : string;
+
+type SchemaFields<E extends EntityType> = (typeof ENTITY_SCHEMAS)[E]['fields'][number];
+
+// Row shape derived from an entity schema. Optional fields may be empty ('').
+export type SchemaRow<E extends EntityType> = {
+  [F in SchemaFields<E> as F extends { required: true } ? F['name'] : never]: FieldValue<F['type']>;
+} & {
+  [F in SchemaFields<E> as F extends { required: true } ? never : F['name']]?: FieldValue<F['type']> | '';
+};
+
+// User-defined entity such as Projects or Locations, shown as an extra table
+export interface CustomEntityType extends EntitySchema {
+  // Stable identifier used in validation results and references
+  key: string;
+  label: string;
+}
+
+export const BUILT_IN_ENTITY_TYPES: EntityType[] = ['clients', 'workers', 'tasks'];
+
+// Starting points offered when defining a custom entity type
+export const CUSTOM_ENTITY_PRESETS: CustomEntityType[] = [
+  {
+    key: 'projects',
+    label: 'Projects',
+    idField: 'ProjectID',
+    fields: [
+      { name: 'ProjectID', type: 'id', required: true, width: 130 },
+      { name: 'Name', type: 'string', required: true, width: 200 },
+      { name: 'ClientID', type: 'id', references: 'clients', width: 130 },
+      { name: 'TaskIDs', type: 'string-list', references: 'tasks', width: 200 },
+      { name: 'StartDate', type: 'date', width: 130 },
+      { name: 'EndDate', type: 'date', width: 130 }
+    ]
+  },
+  {
+    key: 'skills',
+    label: 'Skills',
+    idField: 'Skill',
+    fields: [
+      { name: 'Skill', type: 'id', required: true, width: 160 },
+      { name: 'Category', type: 'string' },
+      { name: 'Description', type: 'string', width: 300 }
+    ]
+  },
+  {
+    key: 'locations',
+    label: 'Locations',
+    idField: 'LocationID',
+    fields: [
+      { name: 'LocationID', type: 'id', required: true, width: 130 },
+      { name: 'Name', type: 'string', required: true, width: 200 },
+      { name: 'Address', type: 'string', width: 300 },
+      { name: 'Capacity', type: 'integer', min: 0 }
+    ]
+  }
+];
+
+const CUSTOM_TYPES_STORAGE_KEY = 'clean-sheet:custom-entity-types';
+
+export function loadCustomEntityTypes(): CustomEntityType[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = window.localStorage.getItem(CUSTOM_TYPES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomEntityTypes(types: CustomEntityType[]): void {
+  window.localStorage.setItem(CUSTOM_TYPES_STORAGE_KEY, JSON.stringify(types));
+}
+
+// Turn a label such as "Skill Catalog" into an entity key ("skill-catalog")
+export function toEntityKey(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Problems that would stop a custom entity type from being used
+export function checkCustomEntityType(type: CustomEntityType, others: CustomEntityType[]): string[] {
+  const problems: string[] = [];
+  if (!type.label.trim()) problems.push('A name is required');
+  if (!type.key) {
+    problems.push('The name must contain letters or digits');
+  } else if ((BUILT_IN_ENTITY_TYPES as string[]).includes(type.key) || others.some(other => other.key === type.key)) {
+    problems.push(`An entity type called "${type.label}" already exists`);
+  }
+  if (!type.fields.some(field => field.name === type.idField)) {
+    problems.push('Choose which field holds the ID');
+  }
+  const names = type.fields.map(field => field.name.trim());
+  if (names.some(name => !name)) problems.push('Every field needs a name');
+  const duplicates = names.filter((name, index) => name && names.indexOf(name) !== index);
+  if (duplicates.length > 0) problems.push(`Duplicate field names: ${Array.from(new Set(duplicates)).join(', ')}`);
+  return problems;
+}
+
+export function getEntitySchema(entityType: EntityType): EntitySchema {
+  return ENTITY_SCHEMAS[entityType];
+}
+
+export function getFieldSchema(entityType: EntityType, field: string): FieldSchema | undefined {
+  return ENTITY_SCHEMAS[entityType].fields.find(schema => schema.name === field);
+}
+
+export function getIdField(entityType: EntityType): string {
+  return ENTITY_SCHEMAS[entityType].idField;
+}
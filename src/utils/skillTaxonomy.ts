@@ -0,0 +1,110 @@
+import { SkillTaxonomy } from '../types';
+
+// A skill as written in a cell: "python" or "python:3" with a proficiency level
+export interface SkillEntry {
+  name: string;
+  level?: number;
+}
+
+// Resolves skill names against a taxonomy. Names are compared case-insensitively
+// and synonyms resolve to the first name of their group.
+export interface SkillMatcher {
+  canonical: (name: string) => string;
+  // The skill itself and every skill below it in the hierarchy, as canonical names
+  covers: (name: string) => string[];
+}
+
+export const DEFAULT_SKILL_TAXONOMY: SkillTaxonomy = {
+  synonyms: [
+    ['javascript', 'js'],
+    ['typescript', 'ts'],
+    ['python', 'py'],
+    ['machine learning', 'ml'],
+    ['user interface', 'ui'],
+    ['user experience', 'ux'],
+    ['postgresql', 'postgres']
+  ],
+  children: {
+    frontend: ['react', 'vue', 'angular', 'html', 'css'],
+    backend: ['node', 'java', 'python', 'go'],
+    database: ['sql', 'postgresql', 'mysql', 'mongodb']
+  }
+};
+
+function normalizeSkill(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function parseSkillEntry(value: unknown): SkillEntry {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  const match = text.match(/^(.*?)\s*:\s*(\d+)$/);
+  return match ? { name: match[1], level: Number(match[2]) } : { name: text };
+}
+
+// Skill entries of a Skills or RequiredSkills cell
+export function parseSkillList(value: unknown): SkillEntry[] {
+  const items = Array.isArray(value) ? value : String(value ?? '').split(',');
+  return items.map(parseSkillEntry).filter(entry => entry.name !== '');
+}
+
+export function createSkillMatcher(taxonomy: SkillTaxonomy = DEFAULT_SKILL_TAXONOMY): SkillMatcher {
+  const synonyms = new Map<string, string>();
+  taxonomy.synonyms.forEach(group => {
+    const names = group.map(normalizeSkill).filter(Boolean);
+    names.forEach(name => {
+      if (!synonyms.has(name)) synonyms.set(name, names[0]);
+    });
+  });
+  const canonical = (name: string) => {
+    const normalized = normalizeSkill(name);
+    return synonyms.get(normalized) ?? normalized;
+  };
+
+  const children = new Map<string, string[]>();
+  Object.entries(taxonomy.children).forEach(([parent, childNames]) => {
+    const key = canonical(parent);
+    children.set(key, [...(children.get(key) ?? []), ...childNames.map(canonical)]);
+  });
+
+  const covered = new Map<string, string[]>();
+  const covers = (name: string) => {
+    const root = canonical(name);
+    if (!covered.has(root)) {
+      // Walk the hierarchy; the visited set guards against cycles in user-edited taxonomies
+      const found = new Set<string>([root]);
+      const pending = [root];
+      while (pending.length > 0) {
+        (children.get(pending.pop()!) ?? []).forEach(child => {
+          if (!found.has(child)) {
+            found.add(child);
+            pending.push(child);
+          }
+        });
+      }
+      covered.set(root, [...found]);
+    }
+    return covered.get(root)!;
+  };
+
+  return { canonical, covers };
+}
+
+// Canonical skills a worker's Skills cell covers, used as skill index keys
+export function getCoveredSkills(matcher: SkillMatcher, skills: unknown): string[] {
+  return [...new Set(parseSkillList(skills).flatMap(entry => matcher.covers(entry.name)))];
+}
+
+// Whether a worker's skills meet a requirement. A requirement with a level needs a
+// covering skill of at least that level; skills listed without a level are unrated
+// and meet any level.
+export function meetsRequirement(matcher: SkillMatcher, skills: unknown, requirement: SkillEntry): boolean {
+  const required = matcher.canonical(requirement.name);
+  return parseSkillList(skills).some(entry =>
+    matcher.covers(entry.name).includes(required)
+    && (requirement.level === undefined || entry.level === undefined || entry.level >= requirement.level)
+  );
+}
+
+export function formatSkillEntry(entry: SkillEntry): string {
+  return entry.level === undefined ? entry.name : `${entry.name}:${entry.level}`;
+}
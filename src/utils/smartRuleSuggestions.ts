@@ -1,5 +1,6 @@
 import { Client, Worker, Task } from '../types';
-import { BusinessRule, CoRunRule, SlotRestrictionRule, LoadLimitRule, PhaseWindowRule } from '../types';
+import { BusinessRule, CoRunRule, SlotRestrictionRule, LoadLimitRule, PhaseWindowRule, UserValidationRule } from '../types';
+import { CONDITION_OPERATORS } from './ruleEngine';
 
 export interface RuleSuggestion {
   id: string;
@@ -47,6 +48,7 @@ export interface DataQualityInsight {
 export type ConvertedRuleResult = {
   businessRule?: BusinessRule;
   validationRule?: { entity: 'clients' | 'workers' | 'tasks'; flag: string; value: boolean; description?: string };
+  userRule?: UserValidationRule;
 };
 
 // Convert a rule suggestion to a proper business rule or validation rule
@@ -84,13 +86,11 @@ export function convertSuggestionToBusinessRule(suggestion: RuleSuggestion): Con
         }
         break;
 
-      case 'priority-due-date':
-        // For business logic rules, we'll create a custom business rule
-        // This would need to be handled differently in the business rules system
-        return null;
-
-      default:
-        return null;
+      default: {
+        // Anything else runs through the rule engine when its conditions are supported
+        const userRule = convertSuggestionToUserRule(suggestion);
+        return userRule ? { userRule } : null;
+      }
     }
   } catch (error) {
     console.error('Error converting suggestion to business/validation rule:', error);
@@ -100,6 +100,33 @@ export function convertSuggestionToBusinessRule(suggestion: RuleSuggestion): Con
   return null;
 }
 
+// Turn a suggestion's conditions and validate action into a user validation rule
+function convertSuggestionToUserRule(suggestion: RuleSuggestion): UserValidationRule | null {
+  const conditions = suggestion.suggestedRule.conditions ?? [];
+  const supported = conditions.every(condition =>
+    condition?.field && CONDITION_OPERATORS.some(option => option.value === condition.operator)
+  );
+  if (suggestion.entityType === 'cross-entity' || conditions.length === 0 || !supported) {
+    return null;
+  }
+
+  const action = suggestion.suggestedRule.actions?.find(item => item?.action === 'validate');
+  return {
+    id: `applied-${suggestion.id}`,
+    name: suggestion.title,
+    entityType: suggestion.entityType,
+    match: 'all',
+    conditions: conditions.map(condition => ({
+      field: condition.field,
+      operator: condition.operator,
+      value: condition.value
+    })),
+    message: action?.message || suggestion.description,
+    severity: suggestion.suggestedRule.severity === 'error' ? 'error' : 'warning',
+    enabled: true
+  };
+}
+
 // Extract task IDs from a suggestion
 function extractTaskIdsFromSuggestion(suggestion: RuleSuggestion): string[] {
   const taskIds: string[] = [];
@@ -192,29 +219,29 @@ export function analyzeDataPatterns(clients: Client[], workers: Worker[], tasks:
   const missingFields = new Map<string, Set<string>>();
   
   clients.forEach(client => {
-    if (!client.Email || client.Email.trim() === '') {
+    if (!client.Email || String(client.Email).trim() === '') {
       if (!missingFields.has('clients')) missingFields.set('clients', new Set());
       missingFields.get('clients')!.add('Email');
     }
-    if (!client.Phone || client.Phone.trim() === '') {
+    if (!client.Phone || String(client.Phone).trim() === '') {
       if (!missingFields.has('clients')) missingFields.set('clients', new Set());
       missingFields.get('clients')!.add('Phone');
     }
   });
 
   workers.forEach(worker => {
-    if (!worker.Email || worker.Email.trim() === '') {
+    if (!worker.Email || String(worker.Email).trim() === '') {
       if (!missingFields.has('workers')) missingFields.set('workers', new Set());
       missingFields.get('workers')!.add('Email');
     }
-    if (!worker.Skills || worker.Skills.trim() === '') {
+    if (!worker.Skills || String(worker.Skills).trim() === '') {
       if (!missingFields.has('workers')) missingFields.set('workers', new Set());
       missingFields.get('workers')!.add('Skills');
     }
   });
 
   tasks.forEach(task => {
-    if (!task.DueDate || task.DueDate.trim() === '') {
+    if (!task.DueDate || String(task.DueDate).trim() === '') {
       if (!missingFields.has('tasks')) missingFields.set('tasks', new Set());
       missingFields.get('tasks')!.add('DueDate');
     }
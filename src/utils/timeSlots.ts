@@ -0,0 +1,255 @@
+import { Worker } from '../types';
+import { toText } from './cellValues';
+
+// A slot time read as minutes: since midnight for times of day ("09:30"), since
+// the epoch for dates and date-times ("2024-03-01", "2024-03-01T09:30")
+export interface SlotTime {
+  minutes: number;
+  kind: 'time' | 'date';
+}
+
+// A slot with readable start and end times
+export interface TimedSlot {
+  // Position of the slot within the cell
+  index: number;
+  start: number;
+  end: number;
+  kind: 'time' | 'date';
+  // Times of day only overlap slots on the same day or phase
+  scope: string;
+}
+
+export interface SlotProblem {
+  index: number;
+  kind: 'invalid' | 'inverted' | 'empty' | 'overlap';
+  message: string;
+}
+
+export interface SlotAnalysis {
+  slots: TimedSlot[];
+  problems: SlotProblem[];
+  // Available hours with overlapping slots counted once
+  totalHours: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Parse "9:30", "09:30:00", "9am" or "5:15 pm" as minutes since midnight. "24:00" is
+// accepted so a slot can end at midnight.
+function parseTimeOfDay(text: string): number | null {
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+  if (!match || (match[2] === undefined && !match[4])) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (minutes > 59 || Number(match[3] ?? 0) > 59) return null;
+  if (match[4]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = hours % 12 + (match[4].toLowerCase().startsWith('p') ? 12 : 0);
+  }
+  const total = hours * 60 + minutes;
+  return total <= MINUTES_PER_DAY ? total : null;
+}
+
+// Parse "2024-03-01" or "2024-03-01T09:30" (a space works too, as may seconds and a
+// zone) as minutes since the epoch. Times without a zone are read as UTC so results
+// don't depend on where the sheet is opened. A date alone as the end of a slot
+// covers that whole day.
+function parseDateTime(text: string, isEnd: boolean): number | null {
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}:\d{2}(?::\d{2})?)(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return null;
+  const [, year, month, day, time, zone] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCDate() !== Number(day) || date.getUTCMonth() !== Number(month) - 1) return null;
+
+  const dayStart = date.getTime() / 60000;
+  if (!time) return isEnd ? dayStart + MINUTES_PER_DAY : dayStart;
+  const timeOfDay = parseTimeOfDay(time);
+  if (timeOfDay === null) return null;
+  if (!zone) return dayStart + timeOfDay;
+  const parsed = Date.parse(`${year}-${month}-${day}T${time.padStart(5, '0')}${zone}`);
+  return isNaN(parsed) ? null : parsed / 60000;
+}
+
+export function parseSlotTime(value: unknown, isEnd = false): SlotTime | null {
+  const text = toText(value);
+  const timeOfDay = parseTimeOfDay(text);
+  if (timeOfDay !== null) return { minutes: timeOfDay, kind: 'time' };
+  const dateTime = parseDateTime(text, isEnd);
+  return dateTime !== null ? { minutes: dateTime, kind: 'date' } : null;
+}
+
+function toSlotArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function isRangeSlot(slot: unknown): slot is Record<string, unknown> {
+  return typeof slot === 'object' && slot !== null && ('start' in slot || 'end' in slot);
+}
+
+function describeSlot(slot: Record<string, unknown>, index: number): string {
+  return `slot ${index + 1} (${toText(slot.start)}-${toText(slot.end)})`;
+}
+
+function getScope(slot: Record<string, unknown>, kind: 'time' | 'date'): string {
+  if (kind === 'date') return 'date';
+  return `time:${toText(slot.day ?? slot.phase ?? slot.slot).toLowerCase()}`;
+}
+
+// Read the start/end slots of an AvailableSlots cell. Phase-number slots are not
+// time ranges and are skipped. Unreadable, inverted and zero-length slots are
+// reported and left out of the hours, as are overlaps beyond the first slot.
+export function analyzeTimeSlots(value: unknown): SlotAnalysis {
+  const slots: TimedSlot[] = [];
+  const problems: SlotProblem[] = [];
+
+  toSlotArray(value).forEach((slot, index) => {
+    if (!isRangeSlot(slot)) return;
+    const label = describeSlot(slot, index);
+    const start = parseSlotTime(slot.start);
+    const end = parseSlotTime(slot.end, true);
+    if (!start || !end) {
+      const field = !start ? 'start' : 'end';
+      problems.push({ index, kind: 'invalid', message: `${label} has an unreadable ${field} time "${toText(slot[field])}"` });
+      return;
+    }
+    if (start.kind !== end.kind) {
+      problems.push({ index, kind: 'invalid', message: `${label} mixes a time of day with a date` });
+      return;
+    }
+    // A time of day ending before it starts runs past midnight, e.g. 22:00-02:00
+    const endMinutes = start.kind === 'time' && end.minutes < start.minutes ? end.minutes + MINUTES_PER_DAY : end.minutes;
+    if (endMinutes < start.minutes) {
+      problems.push({ index, kind: 'inverted', message: `${label} ends before it starts` });
+      return;
+    }
+    if (endMinutes === start.minutes) {
+      problems.push({ index, kind: 'empty', message: `${label} has zero length` });
+      return;
+    }
+    slots.push({ index, start: start.minutes, end: endMinutes, kind: start.kind, scope: getScope(slot, start.kind) });
+  });
+
+  const slotArray = toSlotArray(value) as Record<string, unknown>[];
+  groupByScope(slots).forEach(group => {
+    // The slot reaching furthest so far, which the next slot overlaps if it starts earlier
+    let latest: TimedSlot | null = null;
+    group.forEach(slot => {
+      if (latest && slot.start < latest.end) {
+        problems.push({
+          index: slot.index,
+          kind: 'overlap',
+          message: `${describeSlot(slotArray[slot.index], slot.index)} overlaps ${describeSlot(slotArray[latest.index], latest.index)}`
+        });
+        if (slot.end > latest.end) latest = slot;
+        return;
+      }
+      latest = slot;
+    });
+  });
+
+  return {
+    slots,
+    problems: problems.sort((a, b) => a.index - b.index),
+    totalHours: toHours(countCoveredMinutes(slots))
+  };
+}
+
+function toHours(minutes: number): number {
+  return Math.round(minutes / 60 * 100) / 100;
+}
+
+// Minutes covered by the slots, counting overlapping time once
+function countCoveredMinutes(slots: TimedSlot[]): number {
+  return groupByScope(slots).reduce((total, group) => {
+    let coveredUntil = -Infinity;
+    return group.reduce((sum, slot) => {
+      const added = Math.max(0, slot.end - Math.max(slot.start, coveredUntil));
+      coveredUntil = Math.max(coveredUntil, slot.end);
+      return sum + added;
+    }, total);
+  }, 0);
+}
+
+// Slots of each scope, sorted by start time
+function groupByScope(slots: TimedSlot[]): TimedSlot[][] {
+  const groups = new Map<string, TimedSlot[]>();
+  slots.forEach(slot => {
+    if (!groups.has(slot.scope)) {
+      groups.set(slot.scope, []);
+    }
+    groups.get(slot.scope)!.push(slot);
+  });
+  return [...groups.values()].map(group => [...group].sort((a, b) => a.start - b.start || a.end - b.end));
+}
+
+// Hours of usable time slots in each phase they carry as `phase` or `slot`, for phase
+// capacity. A phase whose time slots are all unusable maps to 0 hours.
+export function getPhaseHours(value: unknown): Map<number, number> {
+  const slotArray = toSlotArray(value);
+  const { slots } = analyzeTimeSlots(value);
+  const phaseOf = (slot: unknown) => {
+    if (!isRangeSlot(slot)) return null;
+    const phase = Number(slot.phase ?? slot.slot);
+    return Number.isInteger(phase) && phase > 0 ? phase : null;
+  };
+
+  const hours = new Map<number, number>();
+  slotArray.map(phaseOf).forEach(phase => {
+    if (phase !== null && !hours.has(phase)) {
+      hours.set(phase, toHours(countCoveredMinutes(slots.filter(slot => phaseOf(slotArray[slot.index]) === phase))));
+    }
+  });
+  return hours;
+}
+
+// Replace each run of overlapping slots with one slot from the earliest start to the
+// latest end, keeping the first slot's other fields. Other slots are kept as written.
+// Returns null when no slots overlap.
+export function mergeTimeSlots(value: unknown): (number | Record<string, unknown>)[] | null {
+  const slotArray = toSlotArray(value) as (number | Record<string, unknown>)[];
+  const { slots } = analyzeTimeSlots(value);
+  const merged = new Map<number, Record<string, unknown>>();
+  const dropped = new Set<number>();
+
+  groupByScope(slots).forEach(group => {
+    let first: TimedSlot | null = null;
+    let latest: TimedSlot | null = null;
+    group.forEach(slot => {
+      if (first && latest && slot.start < latest.end) {
+        dropped.add(slot.index);
+        if (slot.end > latest.end) latest = slot;
+        merged.set(first.index, {
+          ...(slotArray[first.index] as Record<string, unknown>),
+          end: (slotArray[latest.index] as Record<string, unknown>).end
+        });
+        return;
+      }
+      first = slot;
+      latest = slot;
+    });
+  });
+
+  if (dropped.size === 0) return null;
+  return slotArray
+    .map((slot, index) => merged.get(index) ?? slot)
+    .filter((_, index) => !dropped.has(index));
+}
+
+// Merge the overlapping slots of every worker
+export function mergeOverlappingSlots(workers: Worker[]): { rows: Worker[]; changedCells: number } {
+  let changedCells = 0;
+  const rows = workers.map(worker => {
+    const slots = mergeTimeSlots(worker.AvailableSlots);
+    if (!slots) return worker;
+    changedCells++;
+    return { ...worker, AvailableSlots: slots };
+  });
+  return { rows, changedCells };
+}
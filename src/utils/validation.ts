@@ -1,18 +1,47 @@
-import { Client, Worker, Task } from '../types';
+import { Client, Worker, Task, EntityType, UserValidationRule, SkillTaxonomy, RuleOverride, ValidationSuppression } from '../types';
+import { coerceValue } from './coercion';
+import { isBlank } from './cellValues';
+import { CustomEntityData } from './customEntities';
+import { CustomEntityType, EntitySchema, FieldFormat, FieldSchema, getEntitySchema, getIdField } from './schema';
+import { ValidationToggles, applyValidationToggles, isToggleEnabled } from './validationToggles';
+import { evaluateUserRules } from './ruleEngine';
+import { RowIdResolver, RuleCode, SuppressedError, UserRuleCode, applyRuleSettings } from './ruleCatalog';
+import { computePhaseLoads, parsePreferredPhases } from './phaseModel';
+import { buildDependencyGraph, findDependencyCycles, parseDependencies } from './dependencyGraph';
+import { SkillEntry, SkillMatcher, createSkillMatcher, formatSkillEntry, getCoveredSkills, meetsRequirement, parseSkillList } from './skillTaxonomy';
+import { SlotProblem, analyzeTimeSlots } from './timeSlots';
 
 export interface ValidationError {
-  entityType: 'clients' | 'workers' | 'tasks';
+  // A built-in entity type or the key of a custom entity type
+  entityType: string;
+  // Key of the row within its table (see getRowKey), also used as the grid row id
+  rowKey: string;
+  // The row's entity ID, which may be blank or shared by duplicate rows
   rowId: string;
   field: string;
+  // Stable code of the check that raised the error (see RULE_CATALOG)
+  code: RuleCode | UserRuleCode;
   message: string;
   severity: 'error' | 'warning';
 }
 
 export interface ValidationResult {
   errors: ValidationError[];
+  // Errors silenced by a suppression; they do not count against isValid
+  suppressed: SuppressedError[];
   isValid: boolean;
 }
 
+// Identify a row by its position in its table, e.g. "clients-3"
+export function getRowKey(entityType: string, rowIndex: number): string {
+  return `${entityType}-${rowIndex}`;
+}
+
+// Position of the row a key refers to
+export function getRowIndex(rowKey: string): number {
+  return Number(rowKey.slice(rowKey.lastIndexOf('-') + 1));
+}
+
 // Helper function to safely get string value
 function getStringValue(value: any): string {
   if (value === null || value === undefined) return '';
@@ -22,6 +51,7 @@ function getStringValue(value: any): string {
 // Helper function to safely parse JSON
 function safeJsonParse(value: any): any {
   if (!value) return null;
+  if (typeof value === 'object') return value; // Already parsed during import
   try {
     return JSON.parse(value);
   } catch {
@@ -29,553 +59,604 @@ function safeJsonParse(value: any): any {
   }
 }
 
-// Helper function to validate array structure
-function validateArrayStructure(arr: any[], expectedType: 'object' | 'number' | 'string', validator?: (item: any) => boolean): boolean {
-  if (!Array.isArray(arr)) return false;
-  return arr.every(item => {
-    if (expectedType === 'object') {
-      return typeof item === 'object' && item !== null;
-    } else if (expectedType === 'number') {
-      return typeof item === 'number';
-    } else if (expectedType === 'string') {
-      return typeof item === 'string';
-    }
-    return validator ? validator(item) : true;
-  });
+// IDs present in each entity (built-in or custom), used to resolve schema references.
+// Counted maps work too, so an index can drop an ID once its last row is gone.
+export type EntityIdSets = Record<string, ReadonlySet<string> | ReadonlyMap<string, number>>;
+
+// Row indexes of the workers holding each canonical skill, directly or through a parent skill
+export type SkillIndex = Map<string, Set<number>>;
+
+// Helper function to split a list field that may not have been coerced yet
+function getListValue(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(item => getStringValue(item)).filter(item => item);
+  return getStringValue(value).split(',').map(item => item.trim()).filter(item => item);
 }
 
-// Helper function to check for circular dependencies
-function detectCircularDependencies(tasks: Task[]): string[][] {
-  const graph = new Map<string, string[]>();
-  const visited = new Set<string>();
-  const recursionStack = new Set<string>();
-  const cycles: string[][] = [];
-
-  // Build dependency graph
-  tasks.forEach(task => {
-    if (task.TaskID && task.Dependencies) {
-      const dependencies = Array.isArray(task.Dependencies) 
-        ? task.Dependencies 
-        : getStringValue(task.Dependencies).split(',').map(d => d.trim()).filter(d => d);
-      graph.set(task.TaskID, dependencies);
-    } else {
-      graph.set(task.TaskID || '', []);
-    }
-  });
+function describeRange(field: FieldSchema): string {
+  if (field.min !== undefined && field.max !== undefined) return `must be between ${field.min} and ${field.max}`;
+  if (field.min !== undefined) return `must be at least ${field.min}`;
+  return `must be at most ${field.max}`;
+}
 
-  function dfs(node: string, path: string[]): void {
-    if (recursionStack.has(node)) {
-      const cycleStart = path.indexOf(node);
-      cycles.push(path.slice(cycleStart));
-      return;
+// Structural checks for fields declaring a format
+function checkFormat(value: unknown, format: FieldFormat): string | null {
+  switch (format) {
+    case 'json-object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? null
+        : 'must be a JSON object';
+    case 'time-slots':
+      return Array.isArray(value) && value.every(slot =>
+        (typeof slot === 'number' && Number.isInteger(slot) && slot > 0) ||
+        (typeof slot === 'object' && slot !== null && (
+          (typeof slot.start === 'string' && typeof slot.end === 'string') ||
+          Number.isInteger(slot.slot ?? slot.phase)
+        ))
+      )
+        ? null
+        : 'must be phase numbers or slots with start/end times';
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(getStringValue(value)) ? null : 'must be a valid email address';
+    case 'phone': {
+      const text = getStringValue(value);
+      return /^\+?[\d\s().-]+$/.test(text) && text.replace(/\D/g, '').length >= 7
+        ? null
+        : 'must be a valid phone number';
     }
-    
-    if (visited.has(node)) return;
-    
-    visited.add(node);
-    recursionStack.add(node);
-    path.push(node);
-    
-    const neighbors = graph.get(node) || [];
-    neighbors.forEach(neighbor => {
-      if (graph.has(neighbor)) {
-        dfs(neighbor, [...path]);
+  }
+}
+
+function collectIds(rows: Record<string, unknown>[], idField: string): Set<string> {
+  return new Set(rows.map(row => getStringValue(row[idField])).filter(Boolean));
+}
+
+// Index worker skills once so task checks are lookups rather than scans over all workers
+export function buildSkillIndex(workers: Worker[], matcher: SkillMatcher = createSkillMatcher()): SkillIndex {
+  const index: SkillIndex = new Map();
+  workers.forEach((worker, workerIndex) => {
+    getCoveredSkills(matcher, worker.Skills).forEach(skill => {
+      if (!index.has(skill)) {
+        index.set(skill, new Set());
       }
+      index.get(skill)!.add(workerIndex);
     });
-    
-    recursionStack.delete(node);
-  }
+  });
+  return index;
+}
 
-  graph.forEach((_, node) => {
-    if (!visited.has(node)) {
-      dfs(node, []);
-    }
+// Workers holding a skill at the required level
+function findQualifiedWorkers(requirement: SkillEntry, skills: SkillIndex, workers: Worker[], matcher: SkillMatcher): Set<number> {
+  const holders = skills.get(matcher.canonical(requirement.name)) ?? new Set<number>();
+  if (requirement.level === undefined) return holders;
+  return new Set([...holders].filter(workerIndex => meetsRequirement(matcher, workers[workerIndex]?.Skills, requirement)));
+}
+
+// Number of workers meeting every one of the requirements
+function countQualifiedWorkers(holders: Set<number>[], workerCount: number): number {
+  if (holders.length === 0) return workerCount;
+  const [smallest] = [...holders].sort((a, b) => a.size - b.size);
+  let count = 0;
+  smallest.forEach(workerIndex => {
+    if (holders.every(set => set.has(workerIndex))) count++;
   });
+  return count;
+}
 
-  return cycles;
+// Collect the IDs of every entity once so reference checks are set lookups
+export function buildEntityIdSets(
+  clients: Client[],
+  workers: Worker[],
+  tasks: Task[],
+  customTypes: CustomEntityType[] = [],
+  customData: CustomEntityData = {}
+): EntityIdSets {
+  const ids: EntityIdSets = {
+    clients: collectIds(clients, getIdField('clients')),
+    workers: collectIds(workers, getIdField('workers')),
+    tasks: collectIds(tasks, getIdField('tasks'))
+  };
+  customTypes.forEach(type => {
+    ids[type.key] = collectIds(customData[type.key] ?? [], type.idField);
+  });
+  return ids;
 }
 
-// Client Validation Functions
-export function validateClient(client: Client, allTasks: Task[]): ValidationError[] {
+// Check a row against its entity schema: required fields, declared types,
+// numeric ranges, formats and references. References are only checked for
+// entities present in ids.
+export function validateSchemaRow(
+  row: Record<string, unknown>,
+  rowIndex: number,
+  entityType: string,
+  schema: EntitySchema,
+  ids: Partial<EntityIdSets> = {}
+): ValidationError[] {
   const errors: ValidationError[] = [];
-  const clientId = getStringValue(client.ClientID);
-
-  // Check missing required columns
-  const name = getStringValue(client.Name);
-  if (!name) {
-    errors.push({
-      entityType: 'clients',
-      rowId: clientId,
-      field: 'Name',
-      message: 'Name is required',
-      severity: 'error'
-    });
-  }
+  const rowKey = getRowKey(entityType, rowIndex);
+  const rowId = getStringValue(row[schema.idField]);
+  const push = (field: string, code: RuleCode, message: string, severity: 'error' | 'warning' = 'error') => {
+    errors.push({ entityType, rowKey, rowId, field, code, message, severity });
+  };
 
-  // Check duplicate ClientIDs (this will be handled at the data level)
-  if (!clientId) {
-    errors.push({
-      entityType: 'clients',
-      rowId: clientId,
-      field: 'ClientID',
-      message: 'ClientID is required',
-      severity: 'error'
-    });
-  }
+  schema.fields.forEach(field => {
+    const raw = row[field.name];
+    if (isBlank(raw)) {
+      if (field.required) push(field.name, 'required-field', `${field.name} is required`);
+      return;
+    }
 
-  // Check invalid JSON in AttributesJSON
-  if (client.AttributesJSON) {
-    const parsed = safeJsonParse(client.AttributesJSON);
-    if (parsed === null) {
-      errors.push({
-        entityType: 'clients',
-        rowId: clientId,
-        field: 'AttributesJSON',
-        message: 'Invalid JSON format',
-        severity: 'error'
-      });
-    } else if (typeof parsed !== 'object') {
-      errors.push({
-        entityType: 'clients',
-        rowId: clientId,
-        field: 'AttributesJSON',
-        message: 'AttributesJSON must be a JSON object',
-        severity: 'error'
-      });
+    const { value, error } = coerceValue(raw, field.type);
+    if (error) {
+      push(field.name, 'invalid-type', `${field.name}: ${error}`);
+      return;
     }
-  }
 
-  // Check missing RequestedTaskIDs from tasks
-  if (client.RequestedTaskIDs) {
-    const requestedTaskIds = Array.isArray(client.RequestedTaskIDs) 
-      ? client.RequestedTaskIDs 
-      : getStringValue(client.RequestedTaskIDs).split(',').map(id => id.trim()).filter(id => id);
-    
-    const existingTaskIds = new Set(allTasks.map(task => task.TaskID).filter(Boolean));
-    const missingTaskIds = requestedTaskIds.filter(taskId => !existingTaskIds.has(taskId));
-    
-    if (missingTaskIds.length > 0) {
-      errors.push({
-        entityType: 'clients',
-        rowId: clientId,
-        field: 'RequestedTaskIDs',
-        message: `Referenced tasks not found: ${missingTaskIds.join(', ')}`,
-        severity: 'warning'
-      });
+    if (typeof value === 'number' && ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max))) {
+      push(field.name, 'out-of-range', `${field.name} ${describeRange(field)}`);
+    }
+
+    const formatError = field.format && checkFormat(value, field.format);
+    if (formatError) {
+      push(field.name, 'invalid-format', `${field.name} ${formatError}`);
     }
-  }
+
+    const referencedIds = field.references && ids[field.references];
+    if (referencedIds) {
+      const missing = getListValue(value).filter(id => !referencedIds.has(id));
+      if (missing.length > 0) {
+        push(field.name, 'unknown-reference', `Referenced ${field.references} not found: ${missing.join(', ')}`, field.referenceSeverity);
+      }
+    }
+  });
 
   return errors;
 }
 
+// Client Validation Functions
+export function validateClient(
+  client: Client,
+  rowIndex: number,
+  allTasks: Task[],
+  ids?: Partial<EntityIdSets>,
+  schema: EntitySchema = getEntitySchema('clients')
+): ValidationError[] {
+  return validateSchemaRow(client, rowIndex, 'clients', schema, ids ?? { tasks: collectIds(allTasks, getIdField('tasks')) });
+}
+
 // Worker Validation Functions
-export function validateWorker(worker: Worker): ValidationError[] {
-  const errors: ValidationError[] = [];
+// Slot time problems reported together under one code each
+const SLOT_PROBLEM_CHECKS: { kinds: SlotProblem['kind'][]; code: RuleCode; severity: 'error' | 'warning' }[] = [
+  { kinds: ['invalid'], code: 'invalid-slot-time', severity: 'error' },
+  { kinds: ['inverted', 'empty'], code: 'inverted-slot', severity: 'error' },
+  { kinds: ['overlap'], code: 'overlapping-slots', severity: 'warning' }
+];
+
+export function validateWorker(worker: Worker, rowIndex: number, schema: EntitySchema = getEntitySchema('workers')): ValidationError[] {
+  const errors = validateSchemaRow(worker, rowIndex, 'workers', schema);
+  const rowKey = getRowKey('workers', rowIndex);
   const workerId = getStringValue(worker.WorkerID);
 
-  // Check duplicate WorkerIDs (this will be handled at the data level)
-  if (!workerId) {
-    errors.push({
-      entityType: 'workers',
-      rowId: workerId,
-      field: 'WorkerID',
-      message: 'WorkerID is required',
-      severity: 'error'
-    });
-  }
-
-  // Check malformed AvailableSlots array
-  if (worker.AvailableSlots) {
-    const slots = Array.isArray(worker.AvailableSlots) 
-      ? worker.AvailableSlots 
-      : safeJsonParse(worker.AvailableSlots);
-    
-    if (!validateArrayStructure(slots, 'object', (slot) => 
-      typeof slot === 'object' && slot !== null && 
-      typeof slot.start === 'string' && typeof slot.end === 'string'
-    )) {
+  // Check slot times and slot count vs MaxLoadPerPhase once the slots are well formed
+  const slots = safeJsonParse(worker.AvailableSlots);
+  if (Array.isArray(slots) && !errors.some(error => error.field === 'AvailableSlots')) {
+    const { problems, totalHours } = analyzeTimeSlots(slots);
+    SLOT_PROBLEM_CHECKS.forEach(({ kinds, code, severity }) => {
+      const found = problems.filter(problem => kinds.includes(problem.kind));
+      if (found.length === 0) return;
+      const message = found.map(problem => problem.message).join('; ');
       errors.push({
         entityType: 'workers',
+        rowKey,
         rowId: workerId,
         field: 'AvailableSlots',
-        message: 'AvailableSlots must be an array of objects with start/end properties',
-        severity: 'error'
+        code,
+        message: message.charAt(0).toUpperCase() + message.slice(1),
+        severity
       });
-    } else {
-      // Check slot count vs MaxLoadPerPhase
-      const maxLoad = Number(worker.MaxLoadPerPhase);
-      if (!isNaN(maxLoad) && maxLoad > 0 && slots.length < maxLoad) {
-        errors.push({
-          entityType: 'workers',
-          rowId: workerId,
-          field: 'AvailableSlots',
-          message: `Worker has ${slots.length} slots but MaxLoadPerPhase is ${maxLoad} (potential overload)`,
-          severity: 'warning'
-        });
-      }
-    }
-  }
+    });
 
-  // Check MaxLoadPerPhase non-integer or ≤ 0
-  if (worker.MaxLoadPerPhase !== undefined && worker.MaxLoadPerPhase !== null) {
+    // Unusable slots and overlaps with an earlier slot add no capacity
+    const usableSlots = slots.length - problems.length;
     const maxLoad = Number(worker.MaxLoadPerPhase);
-    if (isNaN(maxLoad) || !Number.isInteger(maxLoad) || maxLoad <= 0) {
+    if (!isNaN(maxLoad) && maxLoad > 0 && usableSlots < maxLoad) {
+      const hours = totalHours > 0 ? ` (${totalHours} hours)` : '';
       errors.push({
         entityType: 'workers',
+        rowKey,
         rowId: workerId,
-        field: 'MaxLoadPerPhase',
-        message: 'MaxLoadPerPhase must be a positive integer',
-        severity: 'error'
+        field: 'AvailableSlots',
+        code: 'slot-overload',
+        message: `Worker has ${usableSlots} usable slots${hours} but MaxLoadPerPhase is ${maxLoad} (potential overload)`,
+        severity: 'warning'
       });
     }
   }
 
-  // Check missing required Skills
-  const skills = getStringValue(worker.Skills);
-  if (!skills) {
-    errors.push({
-      entityType: 'workers',
-      rowId: workerId,
-      field: 'Skills',
-      message: 'Skills are required',
-      severity: 'error'
-    });
-  }
-
   return errors;
 }
 
 // Task Validation Functions
-export function validateTask(task: Task, allWorkers: Worker[]): ValidationError[] {
-  const errors: ValidationError[] = [];
+export function validateTask(
+  task: Task,
+  rowIndex: number,
+  allWorkers: Worker[],
+  ids: Partial<EntityIdSets> = {},
+  schema: EntitySchema = getEntitySchema('tasks'),
+  matcher: SkillMatcher = createSkillMatcher(),
+  skills: SkillIndex = buildSkillIndex(allWorkers, matcher)
+): ValidationError[] {
+  const errors = validateSchemaRow(task, rowIndex, 'tasks', schema, ids);
+  const rowKey = getRowKey('tasks', rowIndex);
   const taskId = getStringValue(task.TaskID);
 
-  // Check invalid Duration (<1)
-  if (task.Duration !== undefined && task.Duration !== null) {
-    const duration = Number(task.Duration);
-    if (isNaN(duration) || duration < 1) {
-      errors.push({
-        entityType: 'tasks',
-        rowId: taskId,
-        field: 'Duration',
-        message: 'Duration must be at least 1',
-        severity: 'error'
-      });
-    }
-  }
+  // Check RequiredSkills not matched by any worker, using synonyms, parent skills and levels
+  const requirements = parseSkillList(task.RequiredSkills);
+  if (requirements.length > 0) {
+    const holders = requirements.map(requirement => findQualifiedWorkers(requirement, skills, allWorkers, matcher));
 
-  // Check PriorityLevel range (if present)
-  if (task.PriorityLevel !== undefined && task.PriorityLevel !== null) {
-    const priority = Number(task.PriorityLevel);
-    if (isNaN(priority) || priority < 1 || priority > 5) {
-      errors.push({
-        entityType: 'tasks',
-        rowId: taskId,
-        field: 'PriorityLevel',
-        message: 'PriorityLevel must be between 1 and 5',
-        severity: 'error'
-      });
-    }
-  }
-
-  // Check malformed PreferredPhases list or range
-  if (task.PreferredPhases) {
-    const phases = Array.isArray(task.PreferredPhases) 
-      ? task.PreferredPhases 
-      : safeJsonParse(task.PreferredPhases);
-    
-    if (!validateArrayStructure(phases, 'number')) {
-      errors.push({
-        entityType: 'tasks',
-        rowId: taskId,
-        field: 'PreferredPhases',
-        message: 'PreferredPhases must be an array of numbers',
-        severity: 'error'
-      });
-    }
-  }
-
-  // Check RequiredSkills not matched by any worker
-  if (task.RequiredSkills) {
-    const requiredSkills = Array.isArray(task.RequiredSkills) 
-      ? task.RequiredSkills 
-      : getStringValue(task.RequiredSkills).split(',').map(skill => skill.trim()).filter(skill => skill);
-    
-    const allWorkerSkills = new Set<string>();
-    allWorkers.forEach(worker => {
-      if (worker.Skills) {
-        const workerSkills = Array.isArray(worker.Skills) 
-          ? worker.Skills 
-          : getStringValue(worker.Skills).split(',').map(skill => skill.trim()).filter(skill => skill);
-        workerSkills.forEach(skill => allWorkerSkills.add(skill));
-      }
-    });
-    
-    const unmatchedSkills = requiredSkills.filter(skill => !allWorkerSkills.has(skill));
+    const unmatchedSkills = requirements.filter((_, index) => holders[index].size === 0);
     if (unmatchedSkills.length > 0) {
       errors.push({
         entityType: 'tasks',
+        rowKey,
         rowId: taskId,
         field: 'RequiredSkills',
-        message: `No worker has skills: ${unmatchedSkills.join(', ')}`,
+        code: 'unmatched-skills',
+        message: `No worker has skills: ${unmatchedSkills.map(formatSkillEntry).join(', ')}`,
         severity: 'warning'
       });
     }
 
     // Check MaxConcurrent feasibility
-    const qualifiedWorkers = allWorkers.filter(worker => {
-      if (!worker.Skills) return false;
-      const workerSkills = Array.isArray(worker.Skills) 
-        ? worker.Skills 
-        : getStringValue(worker.Skills).split(',').map(skill => skill.trim()).filter(skill => skill);
-      return requiredSkills.every(skill => workerSkills.includes(skill));
-    });
+    const qualifiedWorkers = countQualifiedWorkers(holders, allWorkers.length);
 
-    if (qualifiedWorkers.length === 0) {
+    if (qualifiedWorkers === 0) {
       errors.push({
         entityType: 'tasks',
+        rowKey,
         rowId: taskId,
         field: 'RequiredSkills',
+        code: 'no-qualified-worker',
         message: 'No workers match all required skills',
         severity: 'error'
       });
-    } else if (task.MaxConcurrent !== undefined && task.MaxConcurrent !== null) {
+    } else if (!isBlank(task.MaxConcurrent)) {
       const maxConcurrent = Number(task.MaxConcurrent);
-      if (!isNaN(maxConcurrent) && maxConcurrent > qualifiedWorkers.length) {
+      if (!isNaN(maxConcurrent) && maxConcurrent > qualifiedWorkers) {
         errors.push({
           entityType: 'tasks',
+          rowKey,
           rowId: taskId,
           field: 'MaxConcurrent',
-          message: `MaxConcurrent (${maxConcurrent}) exceeds qualified workers (${qualifiedWorkers.length})`,
+          code: 'max-concurrent',
+          message: `MaxConcurrent (${maxConcurrent}) exceeds qualified workers (${qualifiedWorkers})`,
           severity: 'warning'
         });
       }
     }
   }
 
-  // Check MaxConcurrent ≤ 0
-  if (task.MaxConcurrent !== undefined && task.MaxConcurrent !== null) {
-    const maxConcurrent = Number(task.MaxConcurrent);
-    if (isNaN(maxConcurrent) || maxConcurrent <= 0) {
-      errors.push({
-        entityType: 'tasks',
-        rowId: taskId,
-        field: 'MaxConcurrent',
-        message: 'MaxConcurrent must be greater than 0',
-        severity: 'error'
-      });
-    }
-  }
-
   return errors;
 }
 
-// Cross-entity validation
-export function validateDuplicateIds(clients: Client[], workers: Worker[], tasks: Task[]): ValidationError[] {
+// Rows sharing an ID within one entity; each of them is flagged
+function findDuplicateIds(rows: Record<string, unknown>[], entityType: string, idField: string): ValidationError[] {
   const errors: ValidationError[] = [];
-
-  // Check duplicate ClientIDs
-  const clientIds = new Map<string, string[]>();
-  clients.forEach((client, index) => {
-    const id = getStringValue(client.ClientID);
+  const rowsById = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const id = getStringValue(row[idField]);
     if (id) {
-      if (!clientIds.has(id)) {
-        clientIds.set(id, []);
+      if (!rowsById.has(id)) {
+        rowsById.set(id, []);
       }
-      clientIds.get(id)!.push(`Row ${index + 1}`);
+      rowsById.get(id)!.push(index);
     }
   });
 
-  clientIds.forEach((rows, id) => {
-    if (rows.length > 1) {
-      errors.push({
-        entityType: 'clients',
-        rowId: id,
-        field: 'ClientID',
-        message: `Duplicate ClientID found in rows: ${rows.join(', ')}`,
-        severity: 'error'
+  rowsById.forEach((indexes, id) => {
+    if (indexes.length > 1) {
+      const rowList = indexes.map(index => `Row ${index + 1}`).join(', ');
+      indexes.forEach(index => {
+        errors.push({
+          entityType,
+          rowKey: getRowKey(entityType, index),
+          rowId: id,
+          field: idField,
+          code: 'duplicate-id',
+          message: `Duplicate ${idField} found in rows: ${rowList}`,
+          severity: 'error'
+        });
       });
     }
   });
 
-  // Check duplicate WorkerIDs
-  const workerIds = new Map<string, string[]>();
-  workers.forEach((worker, index) => {
-    const id = getStringValue(worker.WorkerID);
-    if (id) {
-      if (!workerIds.has(id)) {
-        workerIds.set(id, []);
-      }
-      workerIds.get(id)!.push(`Row ${index + 1}`);
-    }
-  });
+  return errors;
+}
 
-  workerIds.forEach((rows, id) => {
-    if (rows.length > 1) {
-      errors.push({
-        entityType: 'workers',
-        rowId: id,
-        field: 'WorkerID',
-        message: `Duplicate WorkerID found in rows: ${rows.join(', ')}`,
-        severity: 'error'
-      });
-    }
-  });
+// Cross-entity validation
+export function validateDuplicateIds(clients: Client[], workers: Worker[], tasks: Task[]): ValidationError[] {
+  return [
+    ...findDuplicateIds(clients, 'clients', getIdField('clients')),
+    ...findDuplicateIds(workers, 'workers', getIdField('workers')),
+    ...findDuplicateIds(tasks, 'tasks', getIdField('tasks'))
+  ];
+}
 
-  // Check duplicate TaskIDs
-  const taskIds = new Map<string, string[]>();
-  tasks.forEach((task, index) => {
-    const id = getStringValue(task.TaskID);
-    if (id) {
-      if (!taskIds.has(id)) {
-        taskIds.set(id, []);
-      }
-      taskIds.get(id)!.push(`Row ${index + 1}`);
-    }
+// Advanced validation functions
+// Phase-slot saturation: the durations of the tasks preferring a phase must fit
+// within the MaxLoadPerPhase of the workers available in it. Each task in a
+// saturated phase is flagged with the tasks and workers sharing that phase.
+// A task takes at most one slot per phase, so one whose Duration exceeds its
+// preferred phases cannot fit and is flagged on its own.
+export function validateSchedulingFeasibility(clients: Client[], workers: Worker[], tasks: Task[]): ValidationError[] {
+  const tooLong = tasks.flatMap((task, taskIndex): ValidationError[] => {
+    const duration = Number(task.Duration);
+    const phases = parsePreferredPhases(task.PreferredPhases);
+    if (phases.length === 0 || !(duration > phases.length)) return [];
+    return [{
+      entityType: 'tasks',
+      rowKey: getRowKey('tasks', taskIndex),
+      rowId: getStringValue(task.TaskID),
+      field: 'Duration',
+      code: 'duration-exceeds-phases',
+      message: `Duration (${duration}) exceeds the ${phases.length} preferred phase${phases.length !== 1 ? 's' : ''} (${phases.join(', ')})`,
+      severity: 'error'
+    }];
   });
 
-  taskIds.forEach((rows, id) => {
-    if (rows.length > 1) {
-      errors.push({
-        entityType: 'tasks',
-        rowId: id,
-        field: 'TaskID',
-        message: `Duplicate TaskID found in rows: ${rows.join(', ')}`,
-        severity: 'error'
-      });
-    }
+  // Saturated phases of each task row, so a task preferring several is flagged once
+  const saturatedByRow = new Map<number, string[]>();
+
+  computePhaseLoads(workers, tasks).forEach(load => {
+    // Round away floating-point noise from fractional shares before comparing
+    const demand = Math.round(load.demand * 100) / 100;
+    if (demand <= load.capacity) return;
+    const hours = load.hours > 0 ? ` offering ${Math.round(load.hours * 100) / 100} hours` : '';
+    const supply = load.workerIds.length > 0 ? `capacity ${load.capacity} from ${load.workerIds.join(', ')}${hours}` : 'no workers available';
+    const description = `phase ${load.phase} (demand ${demand} from ${load.taskIds.length} tasks, ${supply})`;
+    load.taskIndexes.forEach(taskIndex => {
+      saturatedByRow.set(taskIndex, [...(saturatedByRow.get(taskIndex) ?? []), description]);
+    });
   });
 
-  return errors;
+  const saturated = [...saturatedByRow.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([taskIndex, descriptions]): ValidationError => ({
+      entityType: 'tasks',
+      rowKey: getRowKey('tasks', taskIndex),
+      rowId: getStringValue(tasks[taskIndex].TaskID),
+      field: 'PreferredPhases',
+      code: 'phase-saturation',
+      message: `Preferred ${descriptions.length === 1 ? 'phase is' : 'phases are'} saturated: ${descriptions.join('; ')}`,
+      severity: 'warning'
+    }));
+  return [...tooLong, ...saturated];
 }
 
-// Advanced validation functions
-export function validateSchedulingFeasibility(clients: Client[], workers: Worker[], tasks: Task[]): ValidationError[] {
+// Task dependency checks: unknown targets, self-dependencies, cycles (each group of
+// mutually dependent tasks reported once) and tasks preferring phases that all end
+// before a dependency's earliest preferred phase.
+export function validateTaskDependencies(tasks: Task[]): ValidationError[] {
   const errors: ValidationError[] = [];
+  const graph = buildDependencyGraph(tasks);
 
-  // Check phase-slot saturation
-  const phaseDemand = new Map<number, number>();
-  const phaseCapacity = new Map<number, number>();
-
-  // Calculate task demand by phase
-  tasks.forEach(task => {
-    if (task.PreferredPhases && task.Duration) {
-      const phases = Array.isArray(task.PreferredPhases) 
-        ? task.PreferredPhases 
-        : safeJsonParse(task.PreferredPhases);
-      
-      if (Array.isArray(phases)) {
-        const duration = Number(task.Duration);
-        phases.forEach(phase => {
-          const current = phaseDemand.get(phase) || 0;
-          phaseDemand.set(phase, current + duration);
-        });
-      }
+  tasks.forEach((task, index) => {
+    const taskId = getStringValue(task.TaskID);
+    const dependencies = parseDependencies(task.Dependencies);
+    const push = (field: string, code: RuleCode, message: string, severity: 'error' | 'warning') => {
+      errors.push({ entityType: 'tasks', rowKey: getRowKey('tasks', index), rowId: taskId, field, code, message, severity });
+    };
+
+    if (taskId && dependencies.includes(taskId)) {
+      push('Dependencies', 'self-dependency', 'Task depends on itself', 'error');
+    }
+    const unknown = dependencies.filter(target => target !== taskId && !graph.rowsById.has(target));
+    if (unknown.length > 0) {
+      push('Dependencies', 'unknown-dependency', `Unknown dependencies: ${unknown.join(', ')}`, 'error');
     }
-  });
 
-  // Calculate worker capacity by phase
-  workers.forEach(worker => {
-    if (worker.AvailableSlots) {
-      const slots = Array.isArray(worker.AvailableSlots) 
-        ? worker.AvailableSlots 
-        : safeJsonParse(worker.AvailableSlots);
-      
-      if (Array.isArray(slots)) {
-        const maxLoad = Number(worker.MaxLoadPerPhase) || 1;
-        slots.forEach(slot => {
-          // This is a simplified check - in reality you'd need to parse time ranges
-          const phase = 1; // Placeholder - would need actual phase calculation
-          const current = phaseCapacity.get(phase) || 0;
-          phaseCapacity.set(phase, current + maxLoad);
-        });
-      }
+    const phases = parsePreferredPhases(task.PreferredPhases);
+    if (phases.length === 0) return;
+    const latestPhase = phases[phases.length - 1];
+    const laterDependencies = dependencies
+      .filter(target => target !== taskId && graph.rowsById.has(target))
+      .map(target => {
+        const targetPhases = graph.rowsById.get(target)!
+          .flatMap(targetIndex => parsePreferredPhases(tasks[targetIndex].PreferredPhases));
+        return { target, earliestPhase: targetPhases.length > 0 ? Math.min(...targetPhases) : 0 };
+      })
+      .filter(({ earliestPhase }) => earliestPhase > latestPhase);
+    if (laterDependencies.length > 0) {
+      const list = laterDependencies.map(({ target, earliestPhase }) => `${target} (phase ${earliestPhase})`).join(', ');
+      push('PreferredPhases', 'dependency-phase-order', `Preferred phases end at phase ${latestPhase}, before dependencies can start: ${list}`, 'warning');
     }
   });
 
-  // Check for phase saturation
-  phaseDemand.forEach((demand, phase) => {
-    const capacity = phaseCapacity.get(phase) || 0;
-    if (demand > capacity) {
-      errors.push({
-        entityType: 'tasks',
-        rowId: `phase-${phase}`,
-        field: 'Scheduling',
-        message: `Phase ${phase} demand (${demand}) exceeds capacity (${capacity})`,
-        severity: 'warning'
+  findDependencyCycles(graph).forEach(({ cycle, members }) => {
+    const message = `Circular dependency detected: ${cycle.join(' → ')}`;
+    members.forEach(taskId => {
+      graph.rowsById.get(taskId)!.forEach(index => {
+        errors.push({
+          entityType: 'tasks',
+          rowKey: getRowKey('tasks', index),
+          rowId: taskId,
+          field: 'Dependencies',
+          code: 'circular-dependency',
+          message,
+          severity: 'error'
+        });
       });
-    }
+    });
   });
 
   return errors;
 }
 
-export function validateCircularDependencies(tasks: Task[]): ValidationError[] {
-  const errors: ValidationError[] = [];
-  const cycles = detectCircularDependencies(tasks);
+export interface ValidationOptions {
+  customTypes?: CustomEntityType[];
+  customData?: CustomEntityData;
+  // Toggles from RulesConfig.validationRules; without them only the schemas apply
+  validationRules?: ValidationToggles;
+  // User-authored rules from RulesConfig.userRules
+  userRules?: UserValidationRule[];
+  // Skill synonyms and hierarchy from RulesConfig.skillTaxonomy; defaults apply without it
+  skillTaxonomy?: SkillTaxonomy;
+  // Per-rule settings and per-row suppressions from RulesConfig, applied to the results
+  ruleOverrides?: Record<string, RuleOverride>;
+  suppressions?: ValidationSuppression[];
+}
 
-  cycles.forEach(cycle => {
-    const cycleTasks = cycle.join(' → ');
-    cycle.forEach(taskId => {
-      errors.push({
-        entityType: 'tasks',
-        rowId: taskId,
-        field: 'Dependencies',
-        message: `Circular dependency detected: ${cycleTasks}`,
-        severity: 'error'
-      });
-    });
+// Built-in schemas with the toggles applied, plus the custom entity schemas
+export function getValidationSchemas(
+  customTypes: CustomEntityType[] = [],
+  validationRules?: ValidationToggles
+): Record<string, EntitySchema> {
+  const schemas: Record<string, EntitySchema> = {
+    clients: applyValidationToggles(getEntitySchema('clients'), 'clients', validationRules),
+    workers: applyValidationToggles(getEntitySchema('workers'), 'workers', validationRules),
+    tasks: applyValidationToggles(getEntitySchema('tasks'), 'tasks', validationRules)
+  };
+  customTypes.forEach(type => {
+    schemas[type.key] = type;
   });
+  return schemas;
+}
+
+// Lookups shared by the checks on individual rows
+export interface RowValidationContext {
+  schemas: Record<string, EntitySchema>;
+  ids: Partial<EntityIdSets>;
+  skills: SkillIndex;
+  skillMatcher: SkillMatcher;
+  workers: Worker[];
+  validationRules?: ValidationToggles;
+  userRules: UserValidationRule[];
+}
 
+// Resolve row keys against the current rows, so suppressions can tell whether their row moved
+export function createRowIdResolver(
+  rowsByEntity: Record<string, Record<string, unknown>[]>,
+  schemas: Record<string, EntitySchema>
+): RowIdResolver {
+  return (entityType, rowKey) => {
+    const row = rowsByEntity[entityType]?.[getRowIndex(rowKey)];
+    const schema = schemas[entityType];
+    return row && schema ? getStringValue(row[schema.idField]) : undefined;
+  };
+}
+
+// Every check that depends only on one row and the shared lookups
+export function validateRow(
+  entityType: string,
+  row: Record<string, unknown>,
+  rowIndex: number,
+  context: RowValidationContext
+): ValidationError[] {
+  const schema = context.schemas[entityType];
+  if (!schema) return [];
+
+  const errors: ValidationError[] = [];
+  switch (entityType) {
+    case 'clients':
+      errors.push(...validateClient(row as Client, rowIndex, [], context.ids, schema));
+      break;
+    case 'workers':
+      errors.push(...validateWorker(row as Worker, rowIndex, schema));
+      break;
+    case 'tasks':
+      errors.push(...validateTask(row as Task, rowIndex, context.workers, context.ids, schema, context.skillMatcher, context.skills));
+      // Tasks may be titled under either column
+      if (isToggleEnabled(context.validationRules, 'tasks', 'requireTitle') && !getStringValue(row.Title) && !getStringValue(row.Name)) {
+        errors.push({
+          entityType: 'tasks',
+          rowKey: getRowKey('tasks', rowIndex),
+          rowId: getStringValue(row.TaskID),
+          field: 'Title',
+          code: 'required-field',
+          message: 'Title is required',
+          severity: 'error'
+        });
+      }
+      break;
+    default:
+      errors.push(...validateSchemaRow(row, rowIndex, entityType, schema, context.ids));
+  }
+  errors.push(...evaluateUserRules(context.userRules, entityType, row, getRowKey(entityType, rowIndex), schema.idField));
   return errors;
 }
 
-// Main validation function
-export function validateAllData(clients: Client[], workers: Worker[], tasks: Task[]): ValidationResult {
+// Checks spanning whole tables: duplicate IDs, scheduling and task dependencies.
+// These are linear in the data and rerun in full after every edit.
+export function validateDatasets(
+  clients: Client[],
+  workers: Worker[],
+  tasks: Task[],
+  { customTypes = [], customData = {}, validationRules }: ValidationOptions = {}
+): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  // Validate individual entities
-  clients.forEach(client => {
-    errors.push(...validateClient(client, tasks));
-  });
+  // Uniqueness is on unless a toggle switches it off
+  const requireUnique = (entityType: EntityType) => validationRules?.[entityType]?.requireUniqueID !== false;
+  errors.push(...validateDuplicateIds(
+    requireUnique('clients') ? clients : [],
+    requireUnique('workers') ? workers : [],
+    requireUnique('tasks') ? tasks : []
+  ));
+  errors.push(...validateSchedulingFeasibility(clients, workers, tasks));
+  errors.push(...validateTaskDependencies(tasks));
 
-  workers.forEach(worker => {
-    errors.push(...validateWorker(worker));
+  customTypes.forEach(type => {
+    errors.push(...findDuplicateIds(customData[type.key] ?? [], type.key, type.idField));
   });
 
-  tasks.forEach(task => {
-    errors.push(...validateTask(task, workers));
+  return errors;
+}
+
+// Main validation function. Custom entity types are checked against their own
+// schemas and may reference built-in entities or each other.
+export function validateAllData(
+  clients: Client[],
+  workers: Worker[],
+  tasks: Task[],
+  options: ValidationOptions = {}
+): ValidationResult {
+  const { customTypes = [], customData = {}, validationRules, userRules = [], skillTaxonomy } = options;
+  const skillMatcher = createSkillMatcher(skillTaxonomy);
+  const context: RowValidationContext = {
+    schemas: getValidationSchemas(customTypes, validationRules),
+    ids: buildEntityIdSets(clients, workers, tasks, customTypes, customData),
+    skills: buildSkillIndex(workers, skillMatcher),
+    skillMatcher,
+    workers,
+    validationRules,
+    userRules
+  };
+
+  const rowsByEntity: Record<string, Record<string, unknown>[]> = { clients, workers, tasks };
+  customTypes.forEach(type => {
+    rowsByEntity[type.key] = customData[type.key] ?? [];
   });
 
-  // Validate cross-entity issues
-  errors.push(...validateDuplicateIds(clients, workers, tasks));
-  errors.push(...validateSchedulingFeasibility(clients, workers, tasks));
-  errors.push(...validateCircularDependencies(tasks));
+  const errors: ValidationError[] = [];
+  Object.entries(rowsByEntity).forEach(([entityType, rows]) => {
+    rows.forEach((row, rowIndex) => {
+      errors.push(...validateRow(entityType, row, rowIndex, context));
+    });
+  });
+  errors.push(...validateDatasets(clients, workers, tasks, options));
 
+  const settled = applyRuleSettings(errors, options.ruleOverrides, options.suppressions, createRowIdResolver(rowsByEntity, context.schemas));
   return {
-    errors,
-    isValid: errors.length === 0
+    errors: settled.errors,
+    suppressed: settled.suppressed,
+    isValid: settled.errors.length === 0
   };
 }
 
-// Get cell className for validation styling
-export function getCellClassName(field: string, errors: ValidationError[], rowId: string): string {
-  // Extract the original ID from the prefixed rowId (e.g., "client-CLIENT001-0" -> "CLIENT001")
-  let originalId = rowId;
-  if (rowId.startsWith('client-')) {
-    const parts = rowId.substring(7).split('-');
-    originalId = parts[0]; // Take the first part as the original ID
-  } else if (rowId.startsWith('worker-')) {
-    const parts = rowId.substring(7).split('-');
-    originalId = parts[0]; // Take the first part as the original ID
-  } else if (rowId.startsWith('task-')) {
-    const parts = rowId.substring(5).split('-');
-    originalId = parts[0]; // Take the first part as the original ID
-  }
-  
-  const fieldErrors = errors.filter(error => {
-    return error.field === field && error.rowId === originalId;
-  });
+
+// Get cell className for validation styling; rowKey is the grid row id (see getRowKey)
+export function getCellClassName(field: string, errors: ValidationError[], rowKey: string): string {
+  const fieldErrors = errors.filter(error => error.field === field && error.rowKey === rowKey);
   
   if (fieldErrors.length > 0) {
     const hasError = fieldErrors.some(error => error.severity === 'error');
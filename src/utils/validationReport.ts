@@ -0,0 +1,176 @@
+import * as XLSX from 'xlsx';
+import { UserValidationRule } from '../types';
+import { ValidationError, getRowIndex } from './validation';
+import { formatCellValue, getRawRow } from './coercion';
+import { SuppressedError, getRuleTitle } from './ruleCatalog';
+
+// One reported error, flattened for export
+export interface ValidationReportEntry {
+  entity: string;
+  // 1-based row number within the entity's table
+  row: number;
+  id: string;
+  field: string;
+  rawValue: string;
+  // Rule code and its catalog title (or user rule name)
+  rule: string;
+  ruleTitle: string;
+  message: string;
+  severity: 'error' | 'warning';
+  // Justification of the suppression, for suppressed entries
+  suppression: string;
+}
+
+export interface SeverityCounts {
+  errors: number;
+  warnings: number;
+}
+
+export interface ValidationReport {
+  generatedAt: string;
+  // Suppressed entries are listed but not counted, except in `suppressed`
+  summary: SeverityCounts & {
+    suppressed: number;
+    byEntity: Record<string, SeverityCounts>;
+    byRule: Record<string, SeverityCounts>;
+  };
+  entries: ValidationReportEntry[];
+}
+
+const CSV_COLUMNS: [keyof ValidationReportEntry, string][] = [
+  ['entity', 'Entity'],
+  ['row', 'Row'],
+  ['id', 'ID'],
+  ['field', 'Field'],
+  ['rawValue', 'Raw Value'],
+  ['rule', 'Rule'],
+  ['ruleTitle', 'Rule Title'],
+  ['message', 'Message'],
+  ['severity', 'Severity'],
+  ['suppression', 'Suppression']
+];
+
+function count(counts: Record<string, SeverityCounts>, key: string, severity: 'error' | 'warning') {
+  if (!counts[key]) {
+    counts[key] = { errors: 0, warnings: 0 };
+  }
+  counts[key][severity === 'error' ? 'errors' : 'warnings']++;
+}
+
+// Flatten the errors with the value each one refers to, as it was imported, followed
+// by the suppressed errors. Entity labels default to the entity keys.
+export function buildValidationReport(
+  errors: ValidationError[],
+  rowsByEntity: Record<string, Record<string, unknown>[]>,
+  entityLabels: Record<string, string> = {},
+  suppressed: SuppressedError[] = [],
+  userRules: UserValidationRule[] = []
+): ValidationReport {
+  const byEntity: Record<string, SeverityCounts> = {};
+  const byRule: Record<string, SeverityCounts> = {};
+
+  const toEntry = (error: ValidationError, suppression = ''): ValidationReportEntry => {
+    const rowIndex = getRowIndex(error.rowKey);
+    const row = rowsByEntity[error.entityType]?.[rowIndex];
+    const rawValue = row ? getRawRow(row)[error.field] : undefined;
+    return {
+      entity: entityLabels[error.entityType] ?? error.entityType,
+      row: rowIndex + 1,
+      id: error.rowId,
+      field: error.field,
+      rawValue: rawValue === null || rawValue === undefined ? '' : String(formatCellValue(rawValue)),
+      rule: error.code,
+      ruleTitle: getRuleTitle(error.code, userRules),
+      message: error.message,
+      severity: error.severity,
+      suppression
+    };
+  };
+
+  const entries = errors.map(error => toEntry(error));
+  entries.forEach(entry => {
+    count(byEntity, entry.entity, entry.severity);
+    count(byRule, entry.rule, entry.severity);
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      errors: entries.filter(entry => entry.severity === 'error').length,
+      warnings: entries.filter(entry => entry.severity === 'warning').length,
+      suppressed: suppressed.length,
+      byEntity,
+      byRule
+    },
+    entries: [...entries, ...suppressed.map(({ error, suppression }) => toEntry(error, suppression.justification))]
+  };
+}
+
+export function reportToJson(report: ValidationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function reportToCsv(report: ValidationReport): string {
+  const rows = report.entries.map(entry =>
+    Object.fromEntries(CSV_COLUMNS.map(([key, header]) => [header, entry[key]]))
+  );
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: CSV_COLUMNS.map(([, header]) => header) });
+  return XLSX.utils.sheet_to_csv(worksheet);
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderCountsTable(title: string, counts: Record<string, SeverityCounts>): string {
+  const rows = Object.entries(counts)
+    .sort(([, a], [, b]) => b.errors + b.warnings - (a.errors + a.warnings))
+    .map(([name, { errors, warnings }]) =>
+      `<tr><td>${escapeHtml(name)}</td><td class="num">${errors}</td><td class="num">${warnings}</td></tr>`)
+    .join('');
+  return `<h2>${title}</h2><table><thead><tr><th>${title.replace(/^By /, '')}</th><th>Errors</th><th>Warnings</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+// A standalone page with inline styles, so it can be attached and opened anywhere
+export function reportToHtml(report: ValidationReport): string {
+  const entryRows = report.entries.map(entry => `<tr class="${entry.suppression ? 'suppressed' : entry.severity}">${
+    CSV_COLUMNS.map(([key]) => `<td${key === 'row' ? ' class="num"' : key === 'severity' ? ' class="severity"' : ''}>${escapeHtml(entry[key])}</td>`).join('')
+  }</tr>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Validation Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; margin-bottom: 2rem; font-size: 0.875rem; }
+  th, td { border: 1px solid #ddd; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  td.num { text-align: right; }
+  tr.error td.severity { color: #c62828; font-weight: 600; }
+  tr.warning td.severity { color: #ef6c00; font-weight: 600; }
+  tr.suppressed td { color: #888; }
+  .meta { color: #666; }
+</style>
+</head>
+<body>
+<h1>Validation Report</h1>
+<p class="meta">Generated ${escapeHtml(report.generatedAt)} &middot; ${report.summary.errors} errors, ${report.summary.warnings} warnings, ${report.summary.suppressed} suppressed</p>
+${renderCountsTable('By Entity', report.summary.byEntity)}
+${renderCountsTable('By Rule', report.summary.byRule)}
+<h2>Issues</h2>
+<table>
+<thead><tr>${CSV_COLUMNS.map(([, header]) => `<th>${header}</th>`).join('')}</tr></thead>
+<tbody>
+${entryRows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,73 @@
+import { EntityType, RulesConfig } from '../types';
+import { EntitySchema, FieldSchema } from './schema';
+
+export type ValidationToggles = RulesConfig['validationRules'];
+
+// What each built-in toggle checks, shown next to its switch
+export const VALIDATION_TOGGLE_DESCRIPTIONS: Record<string, string> = {
+  requireUniqueID: 'IDs must be unique within the table',
+  requireName: 'Name must be filled in',
+  requireTitle: 'Title (or Name) must be filled in',
+  requireDepartment: 'Department must be filled in',
+  validateEmail: 'Email must be a valid address',
+  validatePhone: 'Phone must be a valid phone number',
+  validateClientID: 'ClientID must match an existing client',
+  validateWorkerID: 'WorkerID must match an existing worker',
+  validateDueDate: 'DueDate must be a valid date when filled in'
+};
+
+// Toggles that change a field's format, references or parsing rather than requiring
+// it. `disabled` holds the changes applied when the toggle is switched off.
+const FIELD_TOGGLES: Record<string, { field: string; changes: Partial<FieldSchema>; disabled?: Partial<FieldSchema> }> = {
+  validateEmail: { field: 'Email', changes: { format: 'email' } },
+  validatePhone: { field: 'Phone', changes: { format: 'phone' } },
+  validateClientID: { field: 'ClientID', changes: { references: 'clients', referenceSeverity: 'error' } },
+  validateWorkerID: { field: 'WorkerID', changes: { references: 'workers', referenceSeverity: 'error' } },
+  // Switched off, DueDate is read as plain text and not parsed as a date
+  validateDueDate: { field: 'DueDate', changes: { type: 'date' }, disabled: { type: 'string' } }
+};
+
+// Toggles handled outside the schema
+const ENGINE_TOGGLES = ['requireUniqueID', 'requireTitle'];
+
+export function isToggleEnabled(toggles: ValidationToggles | undefined, entityType: EntityType, flag: string): boolean {
+  return toggles?.[entityType]?.[flag] === true;
+}
+
+// Apply an entity's toggles to its schema. require<Field> and validate<Field>
+// (as added by rule suggestions) make the field required; a toggle that is
+// switched off removes the requirement, e.g. requireName for clients. Field
+// toggles such as validateEmail change the field's checks instead.
+// Without toggles the schema is returned unchanged.
+export function applyValidationToggles(
+  schema: EntitySchema,
+  entityType: EntityType,
+  toggles: ValidationToggles | undefined
+): EntitySchema {
+  const entityToggles = toggles?.[entityType];
+  if (!entityToggles) return schema;
+
+  const fieldChanges = new Map<string, Partial<FieldSchema>>();
+  const addChanges = (field: string, changes: Partial<FieldSchema>) => {
+    fieldChanges.set(field, { ...fieldChanges.get(field), ...changes });
+  };
+
+  Object.entries(entityToggles).forEach(([flag, enabled]) => {
+    if (ENGINE_TOGGLES.includes(flag)) return;
+    const fieldToggle = FIELD_TOGGLES[flag];
+    if (fieldToggle) {
+      const changes = enabled ? fieldToggle.changes : fieldToggle.disabled;
+      if (changes) addChanges(fieldToggle.field, changes);
+      return;
+    }
+    const match = flag.match(/^(?:require|validate)(.+)$/);
+    if (match && match[1] !== schema.idField) {
+      addChanges(match[1], { required: enabled });
+    }
+  });
+
+  return {
+    ...schema,
+    fields: schema.fields.map(field => ({ ...field, ...fieldChanges.get(field.name) }))
+  };
+}
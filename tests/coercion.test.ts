@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { RAW_VALUES_KEY, coerceRow, coerceValue, formatCellValue, getRawRow } from '../src/utils/coercion';
+
+test('coerceValue reads numbers with either decimal separator', () => {
+  assert.deepEqual(coerceValue(' 42 ', 'integer'), { value: 42 });
+  assert.deepEqual(coerceValue('1.234,5', 'number', ','), { value: 1234.5 });
+  assert.deepEqual(coerceValue('2.5', 'number'), { value: 2.5 });
+  assert.deepEqual(coerceValue('1,5; 2,25', 'number-list', ','), { value: [1.5, 2.25] });
+  assert.deepEqual(coerceValue('["1.000,5", 2]', 'number-list', ','), { value: [1000.5, 2] });
+  assert.deepEqual(coerceValue('1, 2', 'number-list', ','), { value: [1, 2] });
+  assert.equal(coerceValue('2.5', 'integer').error, 'Expected a whole number but got "2.5"');
+});
+
+test('coerceValue leaves empty cells blank', () => {
+  assert.deepEqual(coerceValue('  ', 'integer'), { value: '' });
+  assert.deepEqual(coerceValue(null, 'date'), { value: '' });
+});
+
+test('coerceValue reads JSON, separated lists, phases and slots', () => {
+  assert.deepEqual(coerceValue('[1, 2]', 'number-list'), { value: [1, 2] });
+  assert.deepEqual(coerceValue('a; b,, c', 'string-list'), { value: ['a', 'b', 'c'] });
+  assert.deepEqual(coerceValue('{"a":1}', 'json'), { value: { a: 1 } });
+  assert.deepEqual(coerceValue('1-3', 'phase-list'), { value: [1, 2, 3] });
+  assert.deepEqual(coerceValue('[{"start":"09:00","end":"10:00"}]', 'slot-list'), { value: [{ start: '09:00', end: '10:00' }] });
+  assert.ok(coerceValue('3-1', 'phase-list').error);
+  assert.ok(coerceValue('one, two', 'number-list').error);
+  assert.ok(coerceValue('{a', 'json').error);
+});
+
+test('coerceValue reads dates as ISO dates', () => {
+  assert.deepEqual(coerceValue('2024-03-01', 'date'), { value: '2024-03-01' });
+  assert.deepEqual(coerceValue(45352, 'date'), { value: '2024-03-01' });
+  assert.ok(coerceValue('2024-02-30', 'date').error);
+});
+
+test('coerceRow keeps the raw values of changed fields and reports failures', () => {
+  const { row, failures } = coerceRow({ TaskID: 'T1', Duration: '2', MaxConcurrent: 'many' }, 'tasks');
+  assert.equal(row.Duration, 2);
+  assert.deepEqual(row[RAW_VALUES_KEY], { Duration: '2' });
+  assert.deepEqual(failures.map(failure => failure.field), ['MaxConcurrent']);
+  assert.equal(getRawRow(row).Duration, '2');
+});
+
+test('formatCellValue writes lists and objects back as text', () => {
+  assert.equal(formatCellValue(['a', 'b']), 'a, b');
+  assert.equal(formatCellValue(3), 3);
+  assert.equal(formatCellValue(null), '');
+});
@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { FileData } from '../src/types';
+import {
+  applyColumnMapping,
+  compactHeader,
+  deleteMappingTemplate,
+  findDuplicateTargets,
+  findMappingTemplate,
+  getHeaderSignature,
+  saveMappingTemplate,
+  suggestColumnMapping
+} from '../src/utils/columnMapping';
+
+// Templates are kept in localStorage; an in-memory store stands in for it
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  window: {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    }
+  }
+});
+
+test('compactHeader and getHeaderSignature ignore case, punctuation and column order', () => {
+  assert.equal(compactHeader(' Task_ID '), 'taskid');
+  assert.equal(getHeaderSignature(['Name', 'Client ID', '']), getHeaderSignature(['client-id', 'NAME']));
+});
+
+test('suggestColumnMapping matches canonical fields and keeps other columns', () => {
+  assert.deepEqual(suggestColumnMapping(['task id', 'REQUIRED_SKILLS', 'Notes'], 'tasks'), {
+    'task id': 'TaskID',
+    REQUIRED_SKILLS: 'RequiredSkills',
+    Notes: 'Notes'
+  });
+});
+
+test('findDuplicateTargets lists fields mapped from more than one column', () => {
+  assert.deepEqual(findDuplicateTargets({ A: 'Name', B: 'Name', C: null, D: 'Email' }), ['Name']);
+});
+
+test('applyColumnMapping renames and drops columns on every row', () => {
+  const fileData = {
+    type: 'clients',
+    fileName: 'clients.csv',
+    columns: ['Client', 'Company', 'Notes'],
+    data: [{ Client: 'C1', Company: 'Acme', Notes: 'x' }, { Client: 'C2', Company: 'Globex', Notes: '' }]
+  } as unknown as FileData;
+  const mapped = applyColumnMapping(fileData, 'clients', { Client: 'ClientID', Company: 'Name', Notes: null });
+  assert.deepEqual(mapped.columns, ['ClientID', 'Name']);
+  assert.deepEqual(mapped.data, [{ ClientID: 'C1', Name: 'Acme' }, { ClientID: 'C2', Name: 'Globex' }]);
+});
+
+test('mapping templates are found by header signature until deleted', () => {
+  const template = saveMappingTemplate(['Client', 'Company'], 'clients', { Client: 'ClientID', Company: 'Name' });
+  assert.deepEqual(findMappingTemplate(['company', 'CLIENT'])?.mapping, { Client: 'ClientID', Company: 'Name' });
+  saveMappingTemplate(['Client', 'Company'], 'clients', { Client: 'ClientID', Company: null });
+  assert.equal(findMappingTemplate(['Client', 'Company'])?.mapping.Company, null);
+  deleteMappingTemplate(template.signature);
+  assert.equal(findMappingTemplate(['Client', 'Company']), undefined);
+});
@@ -0,0 +1,37 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeBytes, detectCsvDialect, detectEncoding, parseDelimitedText } from '../src/utils/csvDialect';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+test('parseDelimitedText handles quoted delimiters, line breaks and doubled quotes', () => {
+  const text = 'ID,Note\r\n1,"a, b"\r\n2,"line\nbreak ""quoted"""\n';
+  assert.deepEqual(parseDelimitedText(text, ',', '"'), [
+    ['ID', 'Note'],
+    ['1', 'a, b'],
+    ['2', 'line\nbreak "quoted"']
+  ]);
+  assert.deepEqual(parseDelimitedText(text, ',', '"', 2), [['ID', 'Note'], ['1', 'a, b']]);
+});
+
+test('detectEncoding uses the byte order mark, then falls back to Windows-1252', () => {
+  assert.deepEqual(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41])), { encoding: 'utf-8', hasBom: true });
+  assert.deepEqual(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00])), { encoding: 'utf-16le', hasBom: true });
+  assert.deepEqual(detectEncoding(encode('café')), { encoding: 'utf-8', hasBom: false });
+  assert.deepEqual(detectEncoding(new Uint8Array([0x63, 0x61, 0x66, 0xe9])), { encoding: 'windows-1252', hasBom: false });
+  assert.equal(decodeBytes(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]), 'utf-8'), 'A');
+});
+
+test('detectCsvDialect finds the delimiter, quote and decimal comma', () => {
+  const dialect = detectCsvDialect(encode("ID;Name;Rate\n1;'Smith; J';1.234,5\n2;'Lee';2,75\n"));
+  assert.equal(dialect.delimiter, ';');
+  assert.equal(dialect.quoteChar, "'");
+  assert.equal(dialect.decimalSeparator, ',');
+});
+
+test('detectCsvDialect keeps the decimal point when commas separate the columns', () => {
+  const dialect = detectCsvDialect(encode('ID,Rate\n1,"2,5"\n2,3.5\n'));
+  assert.equal(dialect.delimiter, ',');
+  assert.equal(dialect.decimalSeparator, '.');
+  assert.equal(detectCsvDialect(encode('ID\tName\n1\tA\n')).delimiter, '\t');
+});
@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeEntityRows } from '../src/utils/dataMerge';
+
+const existing = [
+  { ClientID: 'C1', Name: 'Acme', Email: 'info@acme.test' },
+  { ClientID: 'C2', Name: 'Globex', Email: '' }
+];
+
+test('append keeps every row', () => {
+  const { rows, conflicts } = mergeEntityRows(existing, [{ label: 'new.csv', rows: [{ ClientID: 'C1', Name: 'Acme Ltd' }] }], 'append', 'clients');
+  assert.equal(rows.length, 3);
+  assert.deepEqual(conflicts, []);
+});
+
+test('replace drops the existing rows and merges the incoming sheets by ID', () => {
+  const { rows, conflicts } = mergeEntityRows(existing, [
+    { label: 'a.csv', rows: [{ ClientID: 'C3', Name: 'Initech' }] },
+    { label: 'b.csv', rows: [{ ClientID: 'C3', Name: 'Initech' }, { ClientID: 'C4', Name: 'Umbrella' }] }
+  ], 'replace', 'clients');
+  assert.deepEqual(rows.map(row => row.ClientID), ['C3', 'C4']);
+  assert.deepEqual(conflicts, []);
+});
+
+test('upsert lets the incoming row win and reports the differing fields', () => {
+  const { rows, conflicts } = mergeEntityRows(existing, [
+    { label: 'new.csv', rows: [{ ClientID: 'C1', Name: 'Acme Ltd', Email: 'info@acme.test' }, { ClientID: 'C5', Name: 'Hooli' }] }
+  ], 'upsert', 'clients');
+  assert.deepEqual(rows.map(row => row.Name), ['Acme Ltd', 'Globex', 'Hooli']);
+  assert.equal(conflicts.length, 1);
+  assert.equal(conflicts[0].id, 'C1');
+  assert.deepEqual(conflicts[0].versions.map(version => version.source), ['Current data', 'new.csv']);
+  assert.deepEqual(conflicts[0].differingFields, ['Name']);
+});
+
+test('upsert keeps the version picked for a conflict', () => {
+  const incoming = [{ label: 'new.csv', rows: [{ ClientID: 'C1', Name: 'Acme Ltd', Email: 'info@acme.test' }] }];
+  const { rows } = mergeEntityRows(existing, incoming, 'upsert', 'clients', { C1: 0 });
+  assert.equal(rows[0].Name, 'Acme');
+});
+
+test('upsert keeps the winning row as-is and reports a cleared value as a conflict', () => {
+  const { rows, conflicts } = mergeEntityRows(existing, [
+    { label: 'new.csv', rows: [{ ClientID: 'C1', Name: 'Acme', Email: '' }] }
+  ], 'upsert', 'clients');
+  assert.equal(rows[0].Email, '');
+  assert.deepEqual(conflicts[0].differingFields, ['Email']);
+});
+
+test('upsert lays a sheet with some of the columns over the existing row', () => {
+  const { rows, conflicts } = mergeEntityRows(existing, [
+    { label: 'names.csv', rows: [{ ClientID: 'C1', Name: 'Acme Ltd' }] }
+  ], 'upsert', 'clients');
+  assert.deepEqual(rows[0], { ClientID: 'C1', Name: 'Acme Ltd', Email: 'info@acme.test' });
+  assert.deepEqual(conflicts[0].differingFields, ['Name']);
+});
+
+test('upsert keeps the raw value of each field with the version it came from', () => {
+  const { rows } = mergeEntityRows(
+    [{ ClientID: 'C1', PriorityLevel: 3, Email: 'a@acme.test', _raw: { PriorityLevel: '3.0' } }],
+    [{ label: 'new.csv', rows: [{ ClientID: 'C1', PriorityLevel: 4 }] }],
+    'upsert',
+    'clients'
+  );
+  assert.deepEqual(rows[0], { ClientID: 'C1', PriorityLevel: 4, Email: 'a@acme.test' });
+});
+
+test('uploads sharing a file name are merged as separate sources', () => {
+  const { rows, conflicts } = mergeEntityRows([], [
+    { label: 'clients.csv', rows: [{ ClientID: 'C1', Name: 'Acme' }] },
+    { label: 'clients.csv', rows: [{ ClientID: 'C1', Name: 'Acme Ltd' }] }
+  ], 'replace', 'clients');
+  assert.deepEqual(rows, [{ ClientID: 'C1', Name: 'Acme Ltd' }]);
+  assert.equal(conflicts[0].versions.length, 2);
+});
+
+test('rows repeating an ID within one source are kept for validation to report', () => {
+  const { rows } = mergeEntityRows([], [
+    { label: 'new.csv', rows: [{ ClientID: 'C1', Name: 'Acme' }, { ClientID: 'C1', Name: 'Acme again' }] }
+  ], 'replace', 'clients');
+  assert.equal(rows.length, 2);
+});
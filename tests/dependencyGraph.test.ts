@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Task } from '../src/types';
+import { buildDependencyGraph, findDependencyCycles, getTopologicalOrder, parseDependencies } from '../src/utils/dependencyGraph';
+
+function tasks(dependencies: Record<string, string>): Task[] {
+  return Object.entries(dependencies).map(([TaskID, Dependencies]) => ({ TaskID, Dependencies }) as Task);
+}
+
+test('parseDependencies reads lists and comma-separated text without duplicates', () => {
+  assert.deepEqual(parseDependencies('T2, T3,,T2'), ['T2', 'T3']);
+  assert.deepEqual(parseDependencies([' T1 ', '', 'T4']), ['T1', 'T4']);
+  assert.deepEqual(parseDependencies(undefined), []);
+});
+
+test('buildDependencyGraph drops self-references and unknown tasks', () => {
+  const graph = buildDependencyGraph(tasks({ T1: 'T1, T2, T9', T2: '' }));
+  assert.deepEqual(graph.dependencies.get('T1'), ['T2']);
+  assert.deepEqual(graph.dependencies.get('T2'), []);
+});
+
+test('buildDependencyGraph merges rows sharing a TaskID', () => {
+  const graph = buildDependencyGraph(tasks({ T1: '', T2: '', T3: '' }).concat({ TaskID: 'T1', Dependencies: ['T3'] } as Task));
+  assert.deepEqual(graph.rowsById.get('T1'), [0, 3]);
+  assert.deepEqual(graph.dependencies.get('T1'), ['T3']);
+});
+
+test('findDependencyCycles reports each group of mutually dependent tasks once', () => {
+  const graph = buildDependencyGraph(tasks({ T1: 'T2', T2: 'T3', T3: 'T1, T2', T4: 'T1' }));
+  const cycles = findDependencyCycles(graph);
+  assert.equal(cycles.length, 1);
+  assert.deepEqual(cycles[0].members, ['T1', 'T2', 'T3']);
+  assert.equal(cycles[0].cycle[0], 'T1');
+  assert.equal(cycles[0].cycle[cycles[0].cycle.length - 1], 'T1');
+});
+
+test('findDependencyCycles traces the shortest cycle from the first task', () => {
+  const graph = buildDependencyGraph(tasks({ T1: 'T2', T2: 'T3, T1', T3: 'T1' }));
+  assert.deepEqual(findDependencyCycles(graph)[0].cycle, ['T1', 'T2', 'T1']);
+});
+
+test('findDependencyCycles handles dependency chains longer than the call stack', () => {
+  const length = 50000;
+  const chain = Array.from({ length }, (_, index) => ({ TaskID: `T${index}`, Dependencies: [`T${(index + 1) % length}`] }) as Task);
+  const cycles = findDependencyCycles(buildDependencyGraph(chain));
+  assert.equal(cycles.length, 1);
+  assert.equal(cycles[0].members.length, length);
+  assert.equal(cycles[0].cycle.length, length + 1);
+  assert.equal(getTopologicalOrder(buildDependencyGraph(chain.slice(0, -1))).order.length, length - 1);
+});
+
+test('getTopologicalOrder puts dependencies first and blocks tasks behind a cycle', () => {
+  assert.deepEqual(getTopologicalOrder(buildDependencyGraph(tasks({ T1: 'T3', T2: '', T3: 'T2' }))), {
+    order: ['T2', 'T3', 'T1'],
+    blocked: []
+  });
+  const { order, blocked } = getTopologicalOrder(buildDependencyGraph(tasks({ T1: 'T2', T2: 'T1', T3: 'T1', T4: '' })));
+  assert.deepEqual(order, ['T4']);
+  assert.deepEqual([...blocked].sort(), ['T1', 'T2', 'T3']);
+});
@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { detectFileFormat, readWorkbook } from '../src/utils/fileFormat';
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+function writeWorkbook(bookType: 'xlsx' | 'ods'): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['ClientID', 'Name'], ['C1', 'Acme']]), 'Clients');
+  return XLSX.write(workbook, { type: 'array', bookType });
+}
+
+function firstSheetRows({ workbook }: { workbook: XLSX.WorkBook }): Record<string, unknown>[] {
+  return XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
+}
+
+test('detectFileFormat reads spreadsheets from their contents, not their extension', () => {
+  assert.equal(detectFileFormat(writeWorkbook('xlsx'), 'clients.csv'), 'xlsx');
+  assert.equal(detectFileFormat(writeWorkbook('ods'), 'clients.xlsx'), 'ods');
+  assert.equal(detectFileFormat(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0]).buffer, 'old.dat'), 'xls');
+  assert.equal(detectFileFormat(new Uint8Array([1, 0, 2, 0]).buffer, 'image.png'), null);
+});
+
+test('detectFileFormat tells JSON, NDJSON and delimited text apart', () => {
+  assert.equal(detectFileFormat(toBuffer('[{"ClientID":"C1"}]'), 'data.txt'), 'json');
+  assert.equal(detectFileFormat(toBuffer('{"ClientID":"C1"}\n{"ClientID":"C2"}\n'), 'data.txt'), 'ndjson');
+  assert.equal(detectFileFormat(toBuffer('ClientID,Name\nC1,Acme'), 'clients.tsv'), 'tsv');
+  assert.equal(detectFileFormat(toBuffer('ClientID\tName\nC1\tAcme'), 'clients.txt'), 'tsv');
+  assert.equal(detectFileFormat(toBuffer('ClientID,Name\nC1,Acme'), 'clients'), 'csv');
+});
+
+test('detectFileFormat parses the whole text before trusting a leading bracket', () => {
+  assert.equal(detectFileFormat(toBuffer('{\n  "ClientID": "C1",\n  "Name": "Acme"\n}\n'), 'client.txt'), 'json');
+  assert.equal(detectFileFormat(toBuffer('[Draft]\tName\nC1\tAcme\n'), 'paste.txt'), 'tsv');
+  assert.equal(detectFileFormat(toBuffer('[{"ClientID":'), 'broken.json'), 'json');
+});
+
+test('readWorkbook reads a single JSON object as one row', () => {
+  const result = readWorkbook(toBuffer('{ "ClientID": "C1", "Name": "Acme" }'), 'client.json');
+  assert.deepEqual(firstSheetRows(result), [{ ClientID: 'C1', Name: 'Acme' }]);
+});
+
+test('readWorkbook loads delimited text and spreadsheets into sheets', () => {
+  assert.deepEqual(firstSheetRows(readWorkbook(toBuffer('ClientID\tName\nC1\tAcme, Inc.'), 'clients.tsv')), [
+    { ClientID: 'C1', Name: 'Acme, Inc.' }
+  ]);
+  assert.deepEqual(firstSheetRows(readWorkbook(writeWorkbook('ods'), 'clients.ods')), [{ ClientID: 'C1', Name: 'Acme' }]);
+});
+
+test('readWorkbook reads delimited text with the detected or chosen dialect', () => {
+  const detected = readWorkbook(toBuffer('ID;Rate\n1;2,5\n'), 'rates.csv');
+  assert.equal(detected.dialect?.delimiter, ';');
+  assert.deepEqual(firstSheetRows(detected), [{ ID: '1', Rate: '2,5' }]);
+  const chosen = readWorkbook(toBuffer('ID;Rate\n1;2,5\n'), 'rates.csv', { delimiter: ',' });
+  assert.equal(Object.keys(firstSheetRows(chosen)[0])[0], 'ID;Rate');
+});
+
+test('readWorkbook keeps nested JSON values as JSON text', () => {
+  const result = readWorkbook(toBuffer('[{"WorkerID":"W1","AvailableSlots":[1,2]}]'), 'workers.json');
+  assert.deepEqual(firstSheetRows(result), [{ WorkerID: 'W1', AvailableSlots: '[1,2]' }]);
+});
+
+test('readWorkbook reports the NDJSON line that does not parse', () => {
+  assert.throws(() => readWorkbook(toBuffer('{"TaskID":"T1"}\n{"TaskID":\n'), 'tasks.ndjson'), /line 2/);
+  assert.throws(() => readWorkbook(new Uint8Array([1, 0, 2, 0]).buffer, 'image.png'), /Unsupported file format/);
+});
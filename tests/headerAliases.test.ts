@@ -0,0 +1,43 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeHeaders } from '../src/utils/fileParser';
+import { DEFAULT_HEADER_ALIASES, HeaderAliasDictionary, loadHeaderAliases, saveHeaderAliases } from '../src/utils/headerAliases';
+
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  window: {
+    localStorage: {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    }
+  }
+});
+
+test('normalizeHeaders renames spelling variants and aliases onto canonical fields', () => {
+  const { headers, renamed } = normalizeHeaders(['Worker_ID', 'E-mail', 'Skill Set', 'Shoe Size'], 'workers');
+  assert.deepEqual(headers, ['WorkerID', 'Email', 'Skills', 'Shoe Size']);
+  assert.deepEqual(renamed, [
+    { original: 'Worker_ID', normalized: 'WorkerID' },
+    { original: 'E-mail', normalized: 'Email' },
+    { original: 'Skill Set', normalized: 'Skills' }
+  ]);
+});
+
+test('normalizeHeaders lets a canonically spelled header win over its variants', () => {
+  const { headers } = normalizeHeaders(['Customer', 'ClientID', 'client id'], 'clients');
+  assert.deepEqual(headers, ['Customer', 'ClientID', 'client id']);
+});
+
+test('normalizeHeaders uses the given alias dictionary', () => {
+  const aliases: HeaderAliasDictionary = { ...DEFAULT_HEADER_ALIASES, tasks: { Duration: ['Phases Booked'] } };
+  assert.deepEqual(normalizeHeaders(['phases booked', 'Length'], 'tasks', aliases).headers, ['Duration', 'Length']);
+});
+
+test('saved aliases are loaded over the defaults of the other entities', () => {
+  assert.equal(loadHeaderAliases(), DEFAULT_HEADER_ALIASES);
+  const custom = { ...DEFAULT_HEADER_ALIASES, clients: { ClientID: ['Account'] } };
+  saveHeaderAliases(custom);
+  const loaded = loadHeaderAliases();
+  assert.deepEqual(loaded.clients, { ClientID: ['Account'] });
+  assert.deepEqual(loaded.workers, DEFAULT_HEADER_ALIASES.workers);
+});
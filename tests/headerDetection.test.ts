@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { compactHeader } from '../src/utils/columnMapping';
+import { HEADER_SCAN_ROWS, detectHeaderLayout, getSheetDataWidth } from '../src/utils/headerDetection';
+
+const known = new Set(['ClientID', 'ClientName', 'Email', 'Phone', 'PriorityLevel'].map(compactHeader));
+
+test('detectHeaderLayout skips title rows above the header', () => {
+  const layout = detectHeaderLayout([
+    ['Client export'],
+    [],
+    ['ClientID', 'ClientName', 'PriorityLevel'],
+    ['C1', 'Acme', 3]
+  ], [], known);
+  assert.equal(layout.headerRow, 2);
+  assert.equal(layout.headerRowCount, 1);
+  assert.deepEqual(layout.headers, ['ClientID', 'ClientName', 'PriorityLevel']);
+  assert.equal(layout.warnings.length, 1);
+});
+
+test('detectHeaderLayout combines a merged group row with the row below', () => {
+  const layout = detectHeaderLayout([
+    ['ClientID', 'ClientName', 'Contact', ''],
+    ['', '', 'Email', 'Phone'],
+    ['C1', 'Acme', 'a@b.c', '123']
+  ], [{ s: { r: 0, c: 2 }, e: { r: 0, c: 3 } }], known);
+  assert.equal(layout.headerRowCount, 2);
+  assert.deepEqual(layout.headers, ['ClientID', 'ClientName', 'Email', 'Phone']);
+});
+
+test('detectHeaderLayout combines unmerged group labels over unknown sub-labels', () => {
+  const layout = detectHeaderLayout([
+    ['ClientID', 'Budget', '', 'Email'],
+    ['', 'Min', 'Max', ''],
+    ['C1', 1, 2, 'a@b.c']
+  ], [], new Set([...known, compactHeader('Max')]));
+  assert.deepEqual(layout.headers, ['ClientID', 'Budget Min', 'Max', 'Email']);
+});
+
+test('detectHeaderLayout names blank headers and numbers repeated ones', () => {
+  const layout = detectHeaderLayout([
+    ['ClientID', '', 'Email', 'Email', ''],
+    ['C1', 'x', 'a@b.c', 'd@e.f', '']
+  ], [], known);
+  assert.deepEqual(layout.headers, ['ClientID', 'Column 2', 'Email', 'Email (2)']);
+  assert.equal(layout.warnings.length, 2);
+});
+
+test('detectHeaderLayout keeps a headerless column filled below the scanned rows', () => {
+  const rows = [['ClientID', 'Email', '']];
+  for (let index = 1; index <= HEADER_SCAN_ROWS + 5; index++) {
+    rows.push([`C${index}`, '', index === HEADER_SCAN_ROWS + 5 ? 'note' : '']);
+  }
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+  const range = XLSX.utils.decode_range(worksheet['!ref']!);
+  assert.equal(getSheetDataWidth(worksheet, range), 3);
+
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  assert.deepEqual(detectHeaderLayout(scanned, [], known).headers, ['ClientID', 'Email']);
+  assert.deepEqual(detectHeaderLayout(scanned, [], known, getSheetDataWidth(worksheet, range)).headers, ['ClientID', 'Email', 'Column 3']);
+});
@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Client, Task, Worker } from '../src/types';
+import { validateIncrementally } from '../src/utils/incrementalValidation';
+import { ValidationError, ValidationOptions, validateAllData } from '../src/utils/validation';
+
+const clients = [
+  { ClientID: 'C1', Name: 'Acme', PriorityLevel: 3, RequestedTaskIDs: ['T1', 'T2'] },
+  { ClientID: 'C2', Name: 'Globex', PriorityLevel: 2, RequestedTaskIDs: ['T3'] }
+] as Client[];
+const workers = [
+  { WorkerID: 'W1', Name: 'Ann', Skills: ['react'], AvailableSlots: [1, 2], MaxLoadPerPhase: 1 },
+  { WorkerID: 'W2', Name: 'Bob', Skills: ['python'], AvailableSlots: [2, 3], MaxLoadPerPhase: 1 }
+] as Worker[];
+const tasks = [
+  { TaskID: 'T1', Duration: 1, RequiredSkills: ['react'], PreferredPhases: [1], MaxConcurrent: 1 },
+  { TaskID: 'T2', Duration: 1, RequiredSkills: ['python'], PreferredPhases: [2], MaxConcurrent: 1, Dependencies: ['T1'] },
+  { TaskID: 'T3', Duration: 1, RequiredSkills: ['python'], PreferredPhases: [3], MaxConcurrent: 1 }
+] as Task[];
+const options: ValidationOptions = {};
+
+function describeErrors(errors: ValidationError[]): string[] {
+  return errors.map(error => `${error.rowKey} ${error.code} ${error.field}: ${error.message}`).sort();
+}
+
+function replace<T>(rows: T[], index: number, changes: Partial<T>): T[] {
+  return rows.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row);
+}
+
+test('validateIncrementally starts with a full validation', () => {
+  const state = validateIncrementally(null, clients, workers, tasks, options, []);
+  assert.deepEqual(describeErrors(state.errors), describeErrors(validateAllData(clients, workers, tasks, options).errors));
+});
+
+test('a changed task ID revalidates the rows referencing it', () => {
+  const state = validateIncrementally(null, clients, workers, tasks, options, []);
+  const edited = replace(tasks, 0, { TaskID: 'T9' });
+  const next = validateIncrementally(state, clients, workers, edited, options, [{ entityType: 'tasks', rowIndex: 0 }]);
+  assert.equal(next, state);
+  const expected = describeErrors(validateAllData(clients, workers, edited, options).errors);
+  assert.deepEqual(describeErrors(next.errors), expected);
+  assert.ok(expected.some(error => error.startsWith('clients-0 ')));
+  assert.ok(expected.some(error => error.startsWith('tasks-1 ')));
+});
+
+test('a changed worker skill revalidates the tasks requiring it', () => {
+  const state = validateIncrementally(null, clients, workers, tasks, options, []);
+  const edited = replace(workers, 1, { Skills: ['java'] });
+  const next = validateIncrementally(state, clients, edited, tasks, options, [{ entityType: 'workers', rowIndex: 1 }]);
+  const expected = describeErrors(validateAllData(clients, edited, tasks, options).errors);
+  assert.deepEqual(describeErrors(next.errors), expected);
+  assert.ok(expected.some(error => error.startsWith('tasks-2 ')));
+});
+
+test('removed rows fall back to a full validation', () => {
+  const state = validateIncrementally(null, clients, workers, tasks, options, []);
+  const next = validateIncrementally(state, clients, workers, tasks.slice(1), options, [{ entityType: 'tasks', rowIndex: 0 }]);
+  assert.notEqual(next, state);
+  assert.deepEqual(describeErrors(next.errors), describeErrors(validateAllData(clients, workers, tasks.slice(1), options).errors));
+});
+
+test('rows replaced without a tracked change fall back to a full validation', () => {
+  const state = validateIncrementally(null, clients, workers, tasks, options, []);
+  const edited = replace(replace(tasks, 0, { Duration: 2 }), 2, { TaskID: 'T1' });
+  const next = validateIncrementally(state, clients, workers, edited, options, [{ entityType: 'tasks', rowIndex: 0 }]);
+  assert.notEqual(next, state);
+  const expected = describeErrors(validateAllData(clients, workers, edited, options).errors);
+  assert.deepEqual(describeErrors(next.errors), expected);
+  assert.ok(expected.some(error => error.startsWith('clients-1 unknown-reference')));
+});
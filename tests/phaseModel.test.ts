@@ -0,0 +1,77 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Task, Worker } from '../src/types';
+import { computePhaseLoads, normalizePhaseFields, parsePhaseList, parsePreferredPhases, parseSlotPhases } from '../src/utils/phaseModel';
+import { validateSchedulingFeasibility } from '../src/utils/validation';
+
+const workers = [
+  { WorkerID: 'W1', Skills: [], AvailableSlots: [1, 2], MaxLoadPerPhase: 2 },
+  { WorkerID: 'W2', Skills: [], AvailableSlots: [{ phase: 2 }, { slot: '3' }], MaxLoadPerPhase: '' },
+  { WorkerID: 'W3', Skills: [], AvailableSlots: [3], MaxLoadPerPhase: 'many' }
+] as Worker[];
+const tasks = [
+  { TaskID: 'T1', Duration: 2, PreferredPhases: [1, 2] },
+  { TaskID: 'T2', Duration: 1, PreferredPhases: [2] },
+  { TaskID: 'T3', Duration: 'unknown', PreferredPhases: [3] }
+] as unknown as Task[];
+
+test('parsePhaseList reads ranges, bracketed and plain lists', () => {
+  assert.deepEqual(parsePhaseList('1-3'), [1, 2, 3]);
+  assert.deepEqual(parsePhaseList('[2,4]'), [2, 4]);
+  assert.deepEqual(parsePhaseList('5, 1-2; 2'), [1, 2, 5]);
+  assert.deepEqual(parsePhaseList(3), [3]);
+  assert.equal(parsePhaseList('3-1'), null);
+  assert.equal(parsePhaseList('1-1000'), null);
+  assert.equal(parsePhaseList('early'), null);
+});
+
+test('parsePreferredPhases reads lists and JSON arrays', () => {
+  assert.deepEqual(parsePreferredPhases('2, 1, 2'), [1, 2]);
+  assert.deepEqual(parsePreferredPhases('[3, 1]'), [1, 3]);
+  assert.deepEqual(parsePreferredPhases(''), []);
+});
+
+test('parseSlotPhases reads phase numbers and slot objects', () => {
+  assert.deepEqual(parseSlotPhases('[2, 1]'), [1, 2]);
+  assert.deepEqual(parseSlotPhases([{ phase: 2 }, { slot: '3' }, { start: '09:00', end: '10:00' }]), [2, 3]);
+});
+
+test('computePhaseLoads spreads task Duration over the preferred phases', () => {
+  const loads = computePhaseLoads(workers, tasks).map(({ phase, demand, capacity, taskIds, workerIds }) => ({ phase, demand, capacity, taskIds, workerIds }));
+  assert.deepEqual(loads, [
+    { phase: 1, demand: 1, capacity: 2, taskIds: ['T1'], workerIds: ['W1'] },
+    { phase: 2, demand: 2, capacity: 3, taskIds: ['T1', 'T2'], workerIds: ['W1', 'W2'] },
+    { phase: 3, demand: 0, capacity: 1, taskIds: [], workerIds: ['W2', 'W3'] }
+  ]);
+});
+
+test('computePhaseLoads gives no capacity for a phase whose time slots are all unusable', () => {
+  const timed = [
+    { WorkerID: 'W1', Skills: [], AvailableSlots: [{ phase: 1, start: '09:00', end: '09:00' }, { phase: 2, start: '09:00', end: '12:30' }] }
+  ] as Worker[];
+  const loads = computePhaseLoads(timed, []).map(({ phase, capacity, hours }) => ({ phase, capacity, hours }));
+  assert.deepEqual(loads, [{ phase: 2, capacity: 1, hours: 3.5 }]);
+});
+
+test('a Duration longer than the preferred phases is reported instead of loading the phase further', () => {
+  const long = [{ TaskID: 'T1', Duration: 5, PreferredPhases: [2] }] as unknown as Task[];
+  assert.equal(computePhaseLoads(workers, long).find(load => load.phase === 2)!.demand, 1);
+  const errors = validateSchedulingFeasibility([], workers, long);
+  assert.deepEqual(errors.map(({ rowKey, field, code, severity }) => ({ rowKey, field, code, severity })), [
+    { rowKey: 'tasks-0', field: 'Duration', code: 'duration-exceeds-phases', severity: 'error' }
+  ]);
+  assert.equal(errors[0].message, 'Duration (5) exceeds the 1 preferred phase (2)');
+});
+
+test('normalizePhaseFields rewrites readable phase cells as sorted arrays', () => {
+  const rows = [
+    { TaskID: 'T1', PreferredPhases: '3-1' },
+    { TaskID: 'T2', PreferredPhases: '1-3' },
+    { TaskID: 'T3', PreferredPhases: [1, 2] },
+    { TaskID: 'T4', PreferredPhases: 'soon' }
+  ];
+  const { rows: normalized, changedCells } = normalizePhaseFields(rows, ['PreferredPhases']);
+  assert.equal(changedCells, 1);
+  assert.deepEqual(normalized.map(row => row.PreferredPhases), ['3-1', [1, 2, 3], [1, 2], 'soon']);
+  assert.equal(normalized[2], rows[2]);
+});
@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { applyRuleSettings, createSuppression, getRuleTitle } from '../src/utils/ruleCatalog';
+import { ValidationError } from '../src/utils/validation';
+
+function error(rowKey: string, rowId: string, overrides: Partial<ValidationError> = {}): ValidationError {
+  return { entityType: 'tasks', rowKey, rowId, field: 'Duration', code: 'out-of-range', message: 'Duration must be at least 1', severity: 'error', ...overrides };
+}
+
+test('overrides drop disabled rules and change severities', () => {
+  const errors = [error('tasks-0', 'T1'), error('tasks-1', 'T2', { code: 'required-field', field: 'TaskName' })];
+  const result = applyRuleSettings(errors, {
+    'out-of-range': { enabled: true, severity: 'warning' },
+    'required-field': { enabled: false }
+  });
+  assert.deepEqual(result.errors, [{ ...errors[0], severity: 'warning' }]);
+  assert.deepEqual(result.suppressed, []);
+});
+
+test('a suppression sets aside only the matching rule, field and row', () => {
+  const suppression = createSuppression(error('tasks-0', 'T1'), ' Intentional ');
+  assert.equal(suppression.justification, 'Intentional');
+  const errors = [
+    error('tasks-0', 'T1'),
+    error('tasks-0', 'T1', { field: 'MaxConcurrent' }),
+    error('tasks-1', 'T2')
+  ];
+  const result = applyRuleSettings(errors, {}, [suppression]);
+  assert.deepEqual(result.suppressed, [{ error: errors[0], suppression }]);
+  assert.deepEqual(result.errors, errors.slice(1));
+});
+
+test('suppressions stay on their row key while it still holds the same ID', () => {
+  const suppression = createSuppression(error('tasks-0', 'T1'), 'Duplicate on purpose');
+  const rowIds: Record<string, string> = { 'tasks-0': 'T1', 'tasks-1': 'T1' };
+  const resolve = (_entityType: string, rowKey: string) => rowIds[rowKey];
+  const result = applyRuleSettings([error('tasks-0', 'T1'), error('tasks-1', 'T1')], {}, [suppression], resolve);
+  assert.deepEqual(result.suppressed.map(item => item.error.rowKey), ['tasks-0']);
+  assert.deepEqual(result.errors.map(item => item.rowKey), ['tasks-1']);
+});
+
+test('suppressions follow the row ID once the key no longer resolves to it', () => {
+  const suppression = createSuppression(error('tasks-0', 'T1'), 'Moved row');
+  const rowIds: Record<string, string> = { 'tasks-0': 'T9', 'tasks-3': 'T1' };
+  const resolve = (_entityType: string, rowKey: string) => rowIds[rowKey];
+  const result = applyRuleSettings([error('tasks-0', 'T9'), error('tasks-3', 'T1')], {}, [suppression], resolve);
+  assert.deepEqual(result.suppressed.map(item => item.error.rowKey), ['tasks-3']);
+  const blank = createSuppression(error('tasks-2', ''), 'Blank ID');
+  const moved = applyRuleSettings([error('tasks-4', '')], {}, [blank], () => undefined);
+  assert.equal(moved.suppressed.length, 0);
+});
+
+test('getRuleTitle falls back from the catalog to user rule names and the code', () => {
+  assert.equal(getRuleTitle('duplicate-id'), 'Duplicate ID');
+  assert.equal(getRuleTitle('user:missing'), 'user:missing');
+});
@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessRule, Client, Task, Worker } from '../src/types';
+import { analyzeRuleConflicts, parseAllowedPhases } from '../src/utils/ruleConflicts';
+
+const clients = [{ ClientID: 'C1', GroupTag: 'Enterprise' }] as Client[];
+const workers = [
+  { WorkerID: 'W1', Skills: ['python'], AvailableSlots: [1, 2, 3], WorkerGroup: 'Backend' },
+  { WorkerID: 'W2', Skills: ['react'], AvailableSlots: [2, 3], WorkerGroup: 'Frontend' }
+] as Worker[];
+const tasks = [
+  { TaskID: 'T1', Duration: 1, RequiredSkills: ['python'], PreferredPhases: [1] },
+  { TaskID: 'T2', Duration: 1, RequiredSkills: ['python'], PreferredPhases: [1, 2] },
+  { TaskID: 'T3', Duration: 2, RequiredSkills: ['react'], PreferredPhases: [] }
+] as unknown as Task[];
+const data = { clients, workers, tasks };
+
+function messages(rules: BusinessRule[]): string[] {
+  return analyzeRuleConflicts(rules, data).map(conflict => conflict.message);
+}
+
+test('parseAllowedPhases reads "Phase 2" entries and ranges', () => {
+  assert.deepEqual(parseAllowedPhases(['Phase 3', '1-2', 'phases 2']), [1, 2, 3]);
+  assert.deepEqual(parseAllowedPhases(['soon']), []);
+});
+
+test('rules referring to missing tasks and groups are reported', () => {
+  assert.deepEqual(messages([
+    { id: 'r1', type: 'co-run', taskIDs: ['T1', 'T9'] },
+    { id: 'r2', type: 'load-limit', workerGroup: 'Ops', maxSlotsPerPhase: 2 },
+    { id: 'r3', type: 'slot-restriction', groupType: 'client', groupName: 'Enterprise', minCommonSlots: 1 }
+  ]), [
+    'Co-run rule refers to unknown tasks: T9',
+    'Load limit refers to unknown worker group "Ops"'
+  ]);
+});
+
+test('phase windows that share no phase or are shorter than the task conflict', () => {
+  const first: BusinessRule = { id: 'r1', type: 'phase-window', taskID: 'T3', allowedPhases: ['Phase 1'] };
+  const second: BusinessRule = { id: 'r2', type: 'phase-window', taskID: 'T3', allowedPhases: ['Phase 2'] };
+  const conflicts = analyzeRuleConflicts([first, second], data);
+  assert.equal(conflicts.length, 1);
+  assert.deepEqual(conflicts[0].rules, [first, second]);
+  assert.equal(conflicts[0].message, 'Phase windows for T3 share no phase');
+  assert.deepEqual(messages([first]), ['T3 runs for 2 phases but its phase window allows only 1']);
+});
+
+test('co-run tasks need a common phase and a different qualified worker each', () => {
+  assert.deepEqual(messages([
+    { id: 'r1', type: 'co-run', taskIDs: ['T1', 'T2'] },
+    { id: 'r2', type: 'phase-window', taskID: 'T2', allowedPhases: ['Phase 2'] }
+  ]), [
+    'Co-run tasks share no allowed phase (T1: 1; T2: 2)',
+    'Co-run group of 2 tasks (T1, T2) needs 2 different qualified workers but only 1 can be assigned'
+  ]);
+  assert.deepEqual(messages([{ id: 'r1', type: 'co-run', taskIDs: ['T2', 'T3'] }]), []);
+});
+
+test('rules for the same group with different limits conflict', () => {
+  const conflicts = analyzeRuleConflicts([
+    { id: 'r1', type: 'load-limit', workerGroup: 'Backend', maxSlotsPerPhase: 2 },
+    { id: 'r2', type: 'load-limit', workerGroup: 'Backend', maxSlotsPerPhase: 3 }
+  ], data);
+  assert.deepEqual(conflicts.map(conflict => conflict.message), ['Rules for the same group set different limits (2, 3)']);
+  assert.equal(conflicts[0].rules.length, 2);
+});
+
+test('worker slot restrictions are checked against the slots the group shares', () => {
+  assert.deepEqual(messages([
+    { id: 'r1', type: 'slot-restriction', groupType: 'worker', groupName: 'All Workers', minCommonSlots: 3 }
+  ]), ['Workers in "All Workers" share 2 slots (2, 3) but 3 are required']);
+});
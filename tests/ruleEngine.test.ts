@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { RuleCondition, UserValidationRule } from '../src/types';
+import { checkUserRule, describeConditions, evaluateCondition, evaluateUserRules, ruleMatches } from '../src/utils/ruleEngine';
+
+const row = { TaskID: 'T1', Status: 'Done', Duration: 3, StartDate: '2024-03-05', DueDate: '2024-03-01', Notes: '', Tags: ['a', 'b'] };
+
+function rule(conditions: RuleCondition[], changes: Partial<UserValidationRule> = {}): UserValidationRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    entityType: 'tasks',
+    match: 'all',
+    conditions,
+    message: 'Rule matched',
+    severity: 'warning',
+    enabled: true,
+    ...changes
+  };
+}
+
+test('evaluateCondition compares numbers, dates and text', () => {
+  assert.equal(evaluateCondition(row, { field: 'Duration', operator: 'greater-than', value: '2' }), true);
+  assert.equal(evaluateCondition(row, { field: 'Status', operator: 'equals', value: 'done' }), true);
+  assert.equal(evaluateCondition(row, { field: 'Duration', operator: 'between', value: [1, 2] }), false);
+  assert.equal(evaluateCondition(row, { field: 'Status', operator: 'in-list', value: 'Open, DONE' }), true);
+  assert.equal(evaluateCondition(row, { field: 'Status', operator: 'matches', value: '^D' }), true);
+  assert.equal(evaluateCondition(row, { field: 'Status', operator: 'equals', value: 'Done', negate: true }), false);
+});
+
+test('evaluateCondition compares with another field of the row', () => {
+  assert.equal(evaluateCondition(row, { field: 'DueDate', operator: 'less-than', compareField: 'StartDate' }), true);
+  assert.equal(evaluateCondition(row, { field: 'DueDate', operator: 'less-than', compareField: 'Notes' }), false);
+});
+
+test('evaluateCondition never matches a blank value except with empty and exists', () => {
+  assert.equal(evaluateCondition(row, { field: 'Notes', operator: 'not-equals', value: 'x' }), false);
+  assert.equal(evaluateCondition(row, { field: 'Notes', operator: 'empty' }), true);
+  assert.equal(evaluateCondition(row, { field: 'Tags', operator: 'exists' }), true);
+  assert.equal(evaluateCondition(row, { field: 'Missing', operator: 'exists' }), false);
+});
+
+test('ruleMatches combines conditions with all or any', () => {
+  const conditions: RuleCondition[] = [
+    { field: 'Status', operator: 'equals', value: 'Done' },
+    { field: 'Duration', operator: 'less-than', value: 2 }
+  ];
+  assert.equal(ruleMatches(row, rule(conditions)), false);
+  assert.equal(ruleMatches(row, rule(conditions, { match: 'any' })), true);
+  assert.equal(ruleMatches(row, rule([])), false);
+});
+
+test('checkUserRule lists what stops a rule from running', () => {
+  assert.deepEqual(checkUserRule(rule([{ field: 'Status', operator: 'matches', value: '(' }], { name: ' ' })), [
+    'A name is required',
+    'Condition 1 has an invalid regular expression'
+  ]);
+  assert.deepEqual(checkUserRule(rule([{ field: '', operator: 'empty' }])), ['Condition 1 needs a field']);
+});
+
+test('describeConditions summarises the conditions', () => {
+  const described = describeConditions(rule([
+    { field: 'Duration', operator: 'between', value: [1, 5] },
+    { field: 'DueDate', operator: 'less-than', compareField: 'StartDate', negate: true }
+  ], { match: 'any' }));
+  assert.equal(described, 'Duration is between 1 and 5 OR NOT DueDate is less than / before StartDate');
+});
+
+test('evaluateUserRules reports each enabled rule of the entity that matches', () => {
+  const rules = [
+    rule([{ field: 'Status', operator: 'equals', value: 'Done' }], { field: 'DueDate' }),
+    rule([{ field: 'Status', operator: 'equals', value: 'Done' }], { id: 'rule-2', enabled: false }),
+    rule([{ field: 'Status', operator: 'equals', value: 'Done' }], { id: 'rule-3', entityType: 'clients' })
+  ];
+  const errors = evaluateUserRules(rules, 'tasks', row, 'tasks-0', 'TaskID');
+  assert.equal(errors.length, 1);
+  assert.equal(errors[0].rowId, 'T1');
+  assert.equal(errors[0].field, 'DueDate');
+  assert.equal(errors[0].message, 'Rule matched');
+});
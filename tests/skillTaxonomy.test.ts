@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Task, Worker } from '../src/types';
+import {
+  createSkillMatcher,
+  formatSkillEntry,
+  getCoveredSkills,
+  meetsRequirement,
+  parseSkillList
+} from '../src/utils/skillTaxonomy';
+import { validateTask } from '../src/utils/validation';
+
+test('parseSkillList reads names with optional levels from text and arrays', () => {
+  assert.deepEqual(parseSkillList('python:3, SQL ,'), [{ name: 'python', level: 3 }, { name: 'SQL' }]);
+  assert.deepEqual(parseSkillList(['react', 'node : 2']), [{ name: 'react' }, { name: 'node', level: 2 }]);
+  assert.deepEqual(parseSkillList(undefined), []);
+  assert.equal(formatSkillEntry({ name: 'python', level: 3 }), 'python:3');
+});
+
+test('synonyms resolve case-insensitively to the first name of their group', () => {
+  const matcher = createSkillMatcher();
+  assert.equal(matcher.canonical('JS'), 'javascript');
+  assert.equal(matcher.canonical(' Machine   Learning '), 'machine learning');
+  assert.equal(matcher.canonical('Rust'), 'rust');
+});
+
+test('a parent skill covers its children, including synonyms of them', () => {
+  const matcher = createSkillMatcher();
+  assert.ok(matcher.covers('database').includes('postgresql'));
+  assert.deepEqual(getCoveredSkills(matcher, 'react, py'), ['react', 'python']);
+  assert.equal(meetsRequirement(matcher, 'backend', { name: 'py' }), true);
+  assert.equal(meetsRequirement(matcher, 'react', { name: 'frontend' }), false);
+});
+
+test('levels must be met unless the worker skill is unrated', () => {
+  const matcher = createSkillMatcher();
+  assert.equal(meetsRequirement(matcher, 'python:2', { name: 'python', level: 3 }), false);
+  assert.equal(meetsRequirement(matcher, 'python:4', { name: 'python', level: 3 }), true);
+  assert.equal(meetsRequirement(matcher, 'python', { name: 'python', level: 3 }), true);
+});
+
+test('cycles in a custom taxonomy do not loop', () => {
+  const matcher = createSkillMatcher({ synonyms: [], children: { a: ['b'], b: ['a'] } });
+  assert.deepEqual(matcher.covers('a').sort(), ['a', 'b']);
+});
+
+test('tasks without required skills are not checked for qualified workers', () => {
+  const workers = [{ WorkerID: 'W1', Skills: ['python'] }] as Worker[];
+  const codes = (RequiredSkills: unknown) => validateTask({ TaskID: 'T1', RequiredSkills, MaxConcurrent: 3 } as Task, 0, workers)
+    .map(error => error.code)
+    .filter(code => ['unmatched-skills', 'no-qualified-worker', 'max-concurrent'].includes(code));
+  assert.deepEqual(codes([]), []);
+  assert.deepEqual(codes(' , '), []);
+  assert.deepEqual(codes(['rust']), ['unmatched-skills', 'no-qualified-worker']);
+});
@@ -0,0 +1,87 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Worker } from '../src/types';
+import { analyzeTimeSlots, getPhaseHours, mergeOverlappingSlots, mergeTimeSlots, parseSlotTime } from '../src/utils/timeSlots';
+
+test('parseSlotTime reads times of day and dates', () => {
+  assert.deepEqual(parseSlotTime('9:30'), { minutes: 570, kind: 'time' });
+  assert.deepEqual(parseSlotTime('5:15 pm'), { minutes: 1035, kind: 'time' });
+  assert.deepEqual(parseSlotTime('24:00'), { minutes: 1440, kind: 'time' });
+  assert.equal(parseSlotTime('2024-03-01')?.kind, 'date');
+  assert.equal(parseSlotTime('2024-03-01', true)!.minutes - parseSlotTime('2024-03-01')!.minutes, 1440);
+  assert.equal(parseSlotTime('25:00'), null);
+  assert.equal(parseSlotTime('2024-02-30'), null);
+  assert.equal(parseSlotTime('soon'), null);
+});
+
+test('analyzeTimeSlots reads a slot ending before it starts as crossing midnight', () => {
+  const analysis = analyzeTimeSlots([{ start: '22:00', end: '02:00' }]);
+  assert.deepEqual(analysis.problems, []);
+  assert.equal(analysis.totalHours, 4);
+});
+
+test('analyzeTimeSlots reports unreadable, inverted, empty and overlapping slots', () => {
+  const analysis = analyzeTimeSlots(JSON.stringify([
+    { start: '09:00', end: '12:00' },
+    { start: '10:00', end: '11:00' },
+    { start: 'noon', end: '13:00' },
+    { start: '2024-03-02', end: '2024-03-01T12:00' },
+    { start: '14:00', end: '14:00' },
+    { start: '09:00', end: '2024-03-01' }
+  ]));
+  assert.deepEqual(analysis.problems.map(problem => [problem.index, problem.kind]), [
+    [1, 'overlap'],
+    [2, 'invalid'],
+    [3, 'inverted'],
+    [4, 'empty'],
+    [5, 'invalid']
+  ]);
+  // The overlapping slot lies within the first one and adds no hours
+  assert.equal(analysis.totalHours, 3);
+});
+
+test('analyzeTimeSlots only overlaps slots on the same day', () => {
+  const analysis = analyzeTimeSlots([
+    { day: 'Mon', start: '09:00', end: '12:00' },
+    { day: 'Tue', start: '10:00', end: '11:00' }
+  ]);
+  assert.deepEqual(analysis.problems, []);
+  assert.equal(analysis.totalHours, 4);
+});
+
+test('getPhaseHours sums usable hours per phase', () => {
+  const hours = getPhaseHours([
+    { phase: 1, start: '09:00', end: '12:00' },
+    { phase: 1, start: '13:00', end: '14:30' },
+    { phase: 2, start: '17:00', end: '09:00pm' },
+    { phase: 3, start: 'later', end: '10:00' },
+    2
+  ]);
+  assert.deepEqual([...hours], [[1, 4.5], [2, 4], [3, 0]]);
+});
+
+test('mergeTimeSlots joins overlapping slots and keeps the others as written', () => {
+  const slots = [
+    { day: 'Mon', start: '09:00', end: '11:00' },
+    3,
+    { day: 'Mon', start: '10:00', end: '12:00' },
+    { day: 'Tue', start: '10:00', end: '12:00' }
+  ];
+  assert.deepEqual(mergeTimeSlots(slots), [
+    { day: 'Mon', start: '09:00', end: '12:00' },
+    3,
+    { day: 'Tue', start: '10:00', end: '12:00' }
+  ]);
+  assert.equal(mergeTimeSlots([{ start: '09:00', end: '10:00' }, { start: '10:00', end: '11:00' }]), null);
+});
+
+test('mergeOverlappingSlots only changes workers with overlaps', () => {
+  const untouched = { WorkerID: 'W2', Skills: [], AvailableSlots: [1, 2] } as Worker;
+  const { rows, changedCells } = mergeOverlappingSlots([
+    { WorkerID: 'W1', Skills: [], AvailableSlots: [{ start: '09:00', end: '11:00' }, { start: '10:00', end: '12:00' }] } as Worker,
+    untouched
+  ]);
+  assert.equal(changedCells, 1);
+  assert.deepEqual(rows[0].AvailableSlots, [{ start: '09:00', end: '12:00' }]);
+  assert.equal(rows[1], untouched);
+});
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { UserValidationRule } from '../src/types';
+import { createSuppression, getUserRuleCode } from '../src/utils/ruleCatalog';
+import { ValidationError } from '../src/utils/validation';
+import { buildValidationReport, reportToCsv, reportToHtml, reportToJson } from '../src/utils/validationReport';
+
+const errors: ValidationError[] = [
+  { entityType: 'clients', rowKey: 'clients-1', rowId: 'C2', field: 'PriorityLevel', code: 'out-of-range', message: 'PriorityLevel must be 1-5', severity: 'error' },
+  { entityType: 'tasks', rowKey: 'tasks-0', rowId: 'T1', field: 'Duration', code: 'out-of-range', message: 'Duration must be at least 1', severity: 'warning' },
+  { entityType: 'tasks', rowKey: 'tasks-0', rowId: 'T1', field: 'TaskName', code: 'required-field', message: 'TaskName is required', severity: 'error' }
+];
+
+const rowsByEntity = {
+  clients: [{ ClientID: 'C1' }, { ClientID: 'C2', PriorityLevel: 9, _raw: { PriorityLevel: 'nine' } }],
+  tasks: [{ TaskID: 'T1', Duration: 0, TaskName: '' }]
+};
+
+test('buildValidationReport flattens errors with the imported raw values', () => {
+  const report = buildValidationReport(errors, rowsByEntity, { clients: 'Clients' });
+  assert.deepEqual(report.entries[0], {
+    entity: 'Clients',
+    row: 2,
+    id: 'C2',
+    field: 'PriorityLevel',
+    rawValue: 'nine',
+    rule: 'out-of-range',
+    ruleTitle: 'Out of range',
+    message: 'PriorityLevel must be 1-5',
+    severity: 'error',
+    suppression: ''
+  });
+  assert.equal(report.entries[1].entity, 'tasks');
+  assert.equal(report.entries[1].rawValue, '0');
+});
+
+test('the summary counts errors and warnings per entity and rule', () => {
+  const { summary } = buildValidationReport(errors, rowsByEntity);
+  assert.equal(summary.errors, 2);
+  assert.equal(summary.warnings, 1);
+  assert.deepEqual(summary.byEntity, { clients: { errors: 1, warnings: 0 }, tasks: { errors: 1, warnings: 1 } });
+  assert.deepEqual(summary.byRule['out-of-range'], { errors: 1, warnings: 1 });
+});
+
+test('suppressed errors are listed with their justification but not counted', () => {
+  const suppression = createSuppression(errors[0], ' Legacy client ');
+  const report = buildValidationReport(errors.slice(1), rowsByEntity, {}, [{ error: errors[0], suppression }]);
+  assert.equal(report.summary.errors, 1);
+  assert.equal(report.summary.suppressed, 1);
+  assert.equal(report.summary.byEntity.clients, undefined);
+  assert.equal(report.entries[2].suppression, 'Legacy client');
+  assert.ok(reportToHtml(report).includes('class="suppressed"'));
+});
+
+test('user rules are titled with their name', () => {
+  const rule: UserValidationRule = {
+    id: 'r1', name: 'Short tasks', entityType: 'tasks', match: 'all', conditions: [], message: 'Too short', severity: 'warning', enabled: true
+  };
+  const error: ValidationError = { ...errors[1], code: getUserRuleCode('r1') };
+  const report = buildValidationReport([error], rowsByEntity, {}, [], [rule]);
+  assert.equal(report.entries[0].rule, 'user:r1');
+  assert.equal(report.entries[0].ruleTitle, 'Short tasks');
+});
+
+test('reports export as JSON, CSV and escaped HTML', () => {
+  const report = buildValidationReport(errors, rowsByEntity);
+  assert.deepEqual(JSON.parse(reportToJson(report)), report);
+  const csv = reportToCsv(report).split('\n');
+  // xlsx quotes a leading ID so spreadsheet apps do not take the file for SYLK
+  assert.equal(csv[0], 'Entity,Row,"ID",Field,Raw Value,Rule,Rule Title,Message,Severity,Suppression');
+  assert.equal(csv.length, 4);
+  const html = reportToHtml(buildValidationReport([{ ...errors[0], message: '<b>bad</b>' }], rowsByEntity));
+  assert.ok(html.includes('&lt;b&gt;bad&lt;/b&gt;'));
+  assert.ok(!html.includes('<b>bad</b>'));
+});
@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getEntitySchema } from '../src/utils/schema';
+import { ValidationToggles, applyValidationToggles, isToggleEnabled } from '../src/utils/validationToggles';
+
+function toggles(entityToggles: Partial<ValidationToggles>): ValidationToggles {
+  return { clients: {}, workers: {}, tasks: {}, ...entityToggles };
+}
+
+function field(schema: ReturnType<typeof getEntitySchema>, name: string) {
+  return schema.fields.find(candidate => candidate.name === name)!;
+}
+
+test('applyValidationToggles returns the schema unchanged without toggles', () => {
+  const schema = getEntitySchema('clients');
+  assert.equal(applyValidationToggles(schema, 'clients', undefined), schema);
+});
+
+test('require toggles make a field required or optional', () => {
+  const clients = applyValidationToggles(getEntitySchema('clients'), 'clients', toggles({ clients: { requireName: false } }));
+  assert.equal(field(clients, 'Name').required, false);
+  const workers = applyValidationToggles(getEntitySchema('workers'), 'workers', toggles({ workers: { requireDepartment: true } }));
+  assert.equal(field(workers, 'Department').required, true);
+});
+
+test('field toggles add formats and references only while switched on', () => {
+  const on = applyValidationToggles(getEntitySchema('tasks'), 'tasks', toggles({ tasks: { validateClientID: true } }));
+  assert.equal(field(on, 'ClientID').references, 'clients');
+  assert.equal(field(on, 'ClientID').referenceSeverity, 'error');
+  const off = applyValidationToggles(getEntitySchema('clients'), 'clients', toggles({ clients: { validateEmail: false } }));
+  assert.equal(field(off, 'Email').format, undefined);
+  const email = applyValidationToggles(getEntitySchema('clients'), 'clients', toggles({ clients: { validateEmail: true } }));
+  assert.equal(field(email, 'Email').format, 'email');
+});
+
+test('validateDueDate controls whether DueDate is parsed as a date', () => {
+  const on = applyValidationToggles(getEntitySchema('tasks'), 'tasks', toggles({ tasks: { validateDueDate: true } }));
+  assert.equal(field(on, 'DueDate').type, 'date');
+  assert.notEqual(field(on, 'DueDate').required, true);
+  const off = applyValidationToggles(getEntitySchema('tasks'), 'tasks', toggles({ tasks: { validateDueDate: false } }));
+  assert.equal(field(off, 'DueDate').type, 'string');
+});
+
+test('isToggleEnabled is true only for toggles switched on', () => {
+  const config = toggles({ clients: { requireName: true, validateEmail: false } });
+  assert.equal(isToggleEnabled(config, 'clients', 'requireName'), true);
+  assert.equal(isToggleEnabled(config, 'clients', 'validateEmail'), false);
+  assert.equal(isToggleEnabled(undefined, 'clients', 'requireName'), false);
+});